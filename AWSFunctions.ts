@@ -5,20 +5,129 @@ import { z } from "zod";
 import {
   listS3Objects,
   createPresignedGetUrl,
-  putTextObject,
-  getTextObject,
+  writeTextObject,
+  isReservedKey,
+  overlapsReservedPrefix,
+  agentReservedPrefix,
+  getTextObjectSlice,
+  headS3Object,
+  inspectS3Object,
+  getObjectTags,
+  putObjectTags,
+  listZipArchiveEntries,
+  listS3ObjectsWithMetaCapped,
+  getBucketLifecycleRules,
+  getBucketSecurityConfig,
+  putBucketLifecycleRules,
+  listS3ObjectVersions,
+  restoreS3ObjectVersion,
+  assertVersioningEnabled,
   findOldObjects,
 } from "./awsS3.js";
+import {
+  loadS3AccessPolicy,
+  checkS3Access,
+  assertS3Access,
+  assertS3PrefixAccess,
+  assertS3WholePrefixAccess,
+  filterReadableKeys,
+} from "./awsS3Policy.js";
+import {
+  createDeletionPlan,
+  loadDeletionPlanForToken,
+  executeDeletionPlan,
+  type DeletionOutcome,
+} from "./awsS3Deletion.js";
+import { loadUploadExpiryCeiling, issueUploadUrl, listUploadGrants } from "./awsS3Uploads.js";
+import { searchObjectContents } from "./awsS3Search.js";
+import { queryTabularObject } from "./awsS3Tabular.js";
+import { evaluateBucketPosture, severityOrder } from "./awsS3Posture.js";
+import { diffListings } from "./awsS3Diff.js";
+import {
+  newCopyJob,
+  loadCopyJob,
+  saveCopyJob,
+  runCopyJob,
+  mapPrefixKey,
+  type CopyJob,
+  type CopyJobItem,
+} from "./awsS3Copy.js";
+import { buildPrefixTree } from "./awsS3Analytics.js";
+import {
+  loadS3Pricing,
+  recommendForPrefix,
+  toAwsLifecycleRule,
+  mergeLifecycleRules,
+  transitionTargets,
+  type LifecycleRuleSpec,
+} from "./awsS3Lifecycle.js";
 
 import {
   listRunningInstancesCapped,
+  detectIdleInstances,
+  describeEc2Instances,
   getIdleMetricsForInstances,
-  classifyIdle,
   listEc2InstancesSimple,
+  getEc2InstanceDetails,
   type ec2InstanceSummary,
   type idleCandidate,
 } from "./awsEc2Idle.js";
 
+import {
+  loadIdlePolicies,
+  resolveIdlePolicy,
+  idlePolicyOverridesSchema,
+  standardIdlePolicy,
+} from "./awsEc2IdlePolicy.js";
+
+import {
+  locateEc2Instances,
+  checkEc2ActionEligibility,
+  createEc2ActionPlan,
+  loadEc2ActionPlanForToken,
+  markEc2ActionPlanExecuted,
+  matchesTerminationPhrase,
+  applyEc2Action,
+  type Ec2ActionOutcome,
+} from "./awsEc2Actions.js";
+
+import {
+  loadEc2Catalog,
+  getMemoryP95ForInstances,
+  recommendRightsizing,
+} from "./awsEc2Rightsizing.js";
+
+import {
+  auditSecurityGroupExposure,
+  defaultSensitivePorts,
+} from "./awsEc2SecurityGroups.js";
+
+import {
+  findUnattachedVolumes,
+  findGp2Conversions,
+  findStaleSnapshots,
+} from "./awsEbsWaste.js";
+
+import {
+  loadPriceCatalog,
+  ec2InstanceCost,
+  rdsInstanceCost,
+  summarizeCosts,
+} from "./awsPricing.js";
+
+import {
+  scheduleSettingsFromEnv,
+  scheduleTagKey,
+  parseScheduleTag,
+  desiredStateAt,
+  nextScheduledActions,
+  pausedUntil,
+  listScheduledInstances,
+  setSchedulePause,
+  recentScheduleActions,
+  lastScheduleTickFailure,
+} from "./awsEc2Scheduler.js";
+
 import {
   listRdsInstancesSimple,
   getRdsInstanceDetails,
@@ -30,10 +139,34 @@ import {
 import { queryMysqlRds, type rdsQueryResult } from "./awsRdsQuery.js";
 import { getRdsCpuUtilization, type rdsCpuMetrics } from "./awsRdsMetrics.js";
 
-const allowedBuckets = (process.env.ALLOWED_BUCKETS ?? "")
-  .split(",")
-  .map((value) => value.trim())
-  .filter((value) => value.length > 0);
+import {
+  allEnabledRegions,
+  defaultRegion,
+  resolveRegions,
+  mapRegions,
+  mergeRegionResults,
+  capRegionResults,
+  type regionFailure,
+} from "./awsRegions.js";
+
+const s3AccessPolicy = loadS3AccessPolicy(process.env.S3_POLICY_FILE);
+const s3Pricing = loadS3Pricing(process.env.S3_PRICING_FILE);
+const uploadExpiryCeilingSeconds = loadUploadExpiryCeiling(process.env.S3_UPLOAD_MAX_EXPIRY_SECONDS);
+const ec2IdlePolicies = loadIdlePolicies(process.env.EC2_IDLE_POLICY_FILE);
+const ec2ScheduleSettings = scheduleSettingsFromEnv();
+const ec2Catalog = loadEc2Catalog(process.env.EC2_CATALOG_FILE);
+const priceCatalog = loadPriceCatalog(process.env.PRICE_CATALOG_FILE);
+
+// Buckets from ALLOWED_BUCKETS keep full access; buckets in the policy file get its prefix rules
+const allowedBuckets = [
+  ...new Set([
+    ...(process.env.ALLOWED_BUCKETS ?? "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0),
+    ...Object.keys(s3AccessPolicy?.buckets ?? {}),
+  ]),
+];
 
 function resolveBucket(requestedBucket?: string): string {
   if (allowedBuckets.length === 0) {
@@ -46,6 +179,25 @@ function resolveBucket(requestedBucket?: string): string {
   return bucket;
 }
 
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Failed regions in a sweep, worded like the error a single-region call would throw
+function describeRegionFailures(failures: regionFailure[]) {
+  return failures.map(({ region, error }) => {
+    // SDK errors carry the code in name; other thrown values may use Code or code
+    const fields =
+      typeof error === "object" && error !== null ? (error as Record<string, unknown>) : {};
+    const code = fields.name ?? fields.Code ?? fields.code;
+    return {
+      region,
+      code: typeof code === "string" ? code : undefined,
+      message: formatAwsErrorMessage(error),
+    };
+  });
+}
+
 // S3 schemas
 
 const listFilesInputSchema = z.object({
@@ -58,6 +210,7 @@ const listFilesOutputSchema = z.object({
   bucket: z.string(),
   prefix: z.string(),
   count: z.number().int().nonnegative(),
+  hiddenByPolicy: z.number().int().nonnegative(),
   keys: z.array(z.string()),
 });
 
@@ -71,6 +224,14 @@ const listBucketsOutputSchema = z.object({
 const readTextInputSchema = z.object({
   bucket: z.string().optional(),
   key: z.string().min(1),
+  startByte: z.number().int().min(0).optional(),
+  endByte: z.number().int().min(0).optional(),
+  headLines: z.number().int().min(1).max(10000).optional(),
+  tailLines: z.number().int().min(1).max(10000).optional(),
+  zipEntry: z.string().min(1).optional(),
+  versionId: z.string().min(1).optional(),
+  // Hard ceiling so one read cannot flood memory or the model context
+  maxBytes: z.number().int().min(1).max(1024 * 1024).optional().default(256 * 1024),
 });
 
 const readTextOutputSchema = z.object({
@@ -78,19 +239,152 @@ const readTextOutputSchema = z.object({
   key: z.string(),
   content: z.string(),
   contentType: z.string().optional(),
+  etag: z.string().optional(),
+  versionId: z.string().optional(),
+  totalBytes: z.number().int().nonnegative(),
+  compression: z.enum(["gzip", "zstd", "zip"]).optional(),
+  zipEntry: z.string().optional(),
+  decompressedTotalBytes: z.number().int().nonnegative().optional(),
+  rangeStart: z.number().int().nonnegative(),
+  rangeEnd: z.number().int(),
+  bytesReturned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+});
+
+const listZipEntriesInputSchema = z.object({
+  bucket: z.string().optional(),
+  key: z.string().min(1),
+  maxEntries: z.number().int().min(1).max(1000).optional().default(200),
+});
+
+const zipEntrySchema = z.object({
+  name: z.string(),
+  compressedBytes: z.number().int().nonnegative(),
+  uncompressedBytes: z.number().int().nonnegative(),
+  lastModified: z.string().optional(),
+});
+
+const listZipEntriesOutputSchema = z.object({
+  bucket: z.string(),
+  key: z.string(),
+  totalBytes: z.number().int().nonnegative(),
+  entryCount: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  entries: z.array(zipEntrySchema),
+});
+
+const listVersionsInputSchema = z.object({
+  bucket: z.string().optional(),
+  key: z.string().min(1),
+  maxVersions: z.number().int().min(1).max(500).optional().default(50),
+});
+
+const objectVersionSchema = z.object({
+  versionId: z.string(),
+  isLatest: z.boolean(),
+  isDeleteMarker: z.boolean(),
+  lastModified: z.string().optional(),
+  size: z.number().int().nonnegative().optional(),
+  etag: z.string().optional(),
+  storageClass: z.string().optional(),
+});
+
+const listVersionsOutputSchema = z.object({
+  bucket: z.string(),
+  key: z.string(),
+  versioningStatus: z.enum(["Enabled", "Suspended"]),
+  currentlyDeleted: z.boolean(),
+  count: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  versions: z.array(objectVersionSchema),
+});
+
+const restoreVersionInputSchema = z.object({
+  bucket: z.string().optional(),
+  key: z.string().min(1),
+  versionId: z.string().min(1),
+});
+
+const restoreVersionOutputSchema = z.object({
+  bucket: z.string(),
+  key: z.string(),
+  restoredFromVersionId: z.string(),
+  newVersionId: z.string().optional(),
+  etag: z.string().optional(),
+  wasDeleted: z.boolean(),
 });
 
+const writeModeSchema = z.enum(["overwrite", "create-only", "if-match", "overwrite-with-backup"]);
+
 const writeTextInputSchema = z.object({
   bucket: z.string().optional(),
   key: z.string().min(1),
   content: z.string().min(1),
   contentType: z.string().optional().default("text/plain"),
+  mode: writeModeSchema.optional().default("overwrite"),
+  expectedEtag: z.string().min(1).optional(),
 });
 
 const writeTextOutputSchema = z.object({
   bucket: z.string(),
   key: z.string(),
+  mode: writeModeSchema,
+  etag: z.string().optional(),
+  previousEtag: z.string().optional(),
+  backupKey: z.string().optional(),
+});
+
+const inspectObjectsInputSchema = z.object({
+  bucket: z.string().optional(),
+  keys: z.array(z.string().min(1)).min(1).max(50),
+  versionId: z.string().min(1).optional(),
+});
+
+const objectTagSchema = z.object({ key: z.string(), value: z.string() });
+
+const objectDetailsSchema = z.object({
+  key: z.string(),
+  size: z.number().int().nonnegative().optional(),
   etag: z.string().optional(),
+  contentType: z.string().optional(),
+  contentEncoding: z.string().optional(),
+  cacheControl: z.string().optional(),
+  lastModified: z.string().optional(),
+  versionId: z.string().optional(),
+  storageClass: z.string().optional(),
+  archiveStatus: z.string().optional(),
+  restore: z
+    .object({
+      inProgress: z.boolean(),
+      expiresAt: z.string().optional(),
+    })
+    .optional(),
+  serverSideEncryption: z.string().optional(),
+  kmsKeyId: z.string().optional(),
+  bucketKeyEnabled: z.boolean().optional(),
+  metadata: z.record(z.string()).optional(),
+  tags: z.array(objectTagSchema).optional(),
+  error: z.string().optional(),
+});
+
+const inspectObjectsOutputSchema = z.object({
+  bucket: z.string(),
+  count: z.number().int().nonnegative(),
+  objects: z.array(objectDetailsSchema),
+});
+
+const updateObjectTagsInputSchema = z.object({
+  bucket: z.string().optional(),
+  key: z.string().min(1),
+  set: z.record(z.string().max(256)).optional().default({}),
+  remove: z.array(z.string().min(1)).max(10).optional().default([]),
+});
+
+const updateObjectTagsOutputSchema = z.object({
+  bucket: z.string(),
+  key: z.string(),
+  previousTags: z.array(objectTagSchema),
+  tags: z.array(objectTagSchema),
 });
 
 const presignDownloadInputSchema = z.object({
@@ -104,6 +398,56 @@ const presignDownloadOutputSchema = z.object({
   expiresInSeconds: z.number().int(),
 });
 
+const presignUploadInputSchema = z.object({
+  bucket: z.string().optional(),
+  method: z.enum(["POST", "PUT"]).optional().default("POST"),
+  key: z.string().min(1).optional(),
+  keyPrefix: z.string().optional(),
+  contentType: z.string().min(1).optional(),
+  contentLength: z.number().int().min(0).optional(),
+  minBytes: z.number().int().min(0).optional(),
+  maxBytes: z.number().int().min(1).max(5 * 1024 ** 3).optional(),
+  expiresInSeconds: z.number().int().min(60).max(604800).optional().default(900),
+});
+
+const uploadConstraintsSchema = z.object({
+  key: z.string().optional(),
+  keyPrefix: z.string().optional(),
+  contentType: z.string().optional(),
+  contentLength: z.number().int().optional(),
+  minBytes: z.number().int().optional(),
+  maxBytes: z.number().int().optional(),
+});
+
+const uploadGrantSchema = z.object({
+  grantId: z.string(),
+  method: z.enum(["POST", "PUT"]),
+  bucket: z.string(),
+  constraints: uploadConstraintsSchema,
+  issuedAt: z.string(),
+  expiresAt: z.string(),
+  expiresInSeconds: z.number().int(),
+});
+
+const presignUploadOutputSchema = z.object({
+  url: z.string().url(),
+  fields: z.record(z.string()).optional(),
+  grant: uploadGrantSchema,
+  auditKey: z.string(),
+});
+
+const listUploadGrantsInputSchema = z.object({
+  bucket: z.string().optional(),
+  sinceDays: z.number().int().min(1).max(365).optional().default(7),
+  limit: z.number().int().min(1).max(200).optional().default(50),
+});
+
+const listUploadGrantsOutputSchema = z.object({
+  bucket: z.string(),
+  count: z.number().int(),
+  grants: z.array(uploadGrantSchema),
+});
+
 const findOldFilesInputSchema = z.object({
   bucket: z.string().optional(),
   prefix: z.string().optional().default(""),
@@ -127,6 +471,7 @@ const findOldFilesOutputSchema = z.object({
 
   scanned: z.number().int().nonnegative(),
   truncated: z.boolean(),
+  hiddenByPolicy: z.number().int().nonnegative(),
 
   resultCount: z.number().int().nonnegative(),
   totalBytes: z.number().int().nonnegative(),
@@ -134,35 +479,654 @@ const findOldFilesOutputSchema = z.object({
   objects: z.array(oldObjectSchema),
 });
 
+const searchFilesInputSchema = z.object({
+  bucket: z.string().optional(),
+  prefix: z.string().optional().default(""),
+  pattern: z.string().min(1),
+  isRegex: z.boolean().optional().default(false),
+  ignoreCase: z.boolean().optional().default(false),
+  contextLines: z.number().int().min(0).max(5).optional().default(2),
+  maxMatches: z.number().int().min(1).max(500).optional().default(50),
+  maxObjects: z.number().int().min(1).max(1000).optional().default(200),
+  maxBytesScanned: z
+    .number()
+    .int()
+    .min(1024)
+    .max(512 * 1024 * 1024)
+    .optional()
+    .default(64 * 1024 * 1024),
+});
+
+const searchMatchSchema = z.object({
+  key: z.string(),
+  lineNumber: z.number().int().positive(),
+  line: z.string(),
+  before: z.array(z.string()),
+  after: z.array(z.string()),
+});
+
+const searchFilesOutputSchema = z.object({
+  bucket: z.string(),
+  prefix: z.string(),
+  pattern: z.string(),
+
+  listed: z.number().int().nonnegative(),
+  scanned: z.number().int().nonnegative(),
+  bytesScanned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  stopReason: z.enum(["maxObjects", "maxMatches", "maxBytesScanned"]).optional(),
+  hiddenByPolicy: z.number().int().nonnegative(),
+
+  matchCount: z.number().int().nonnegative(),
+  matches: z.array(searchMatchSchema),
+  skipped: z.array(z.object({ key: z.string(), reason: z.string() })),
+});
+
+const tabularFormatSchema = z.enum(["csv", "tsv", "json", "ndjson"]);
+
+const queryDataFileInputSchema = z.object({
+  bucket: z.string().optional(),
+  key: z.string().min(1),
+  format: tabularFormatSchema.optional(),
+  hasHeader: z.boolean().optional().default(true),
+  select: z.array(z.string().min(1)).max(50).optional(),
+  where: z
+    .array(
+      z.object({
+        column: z.string().min(1),
+        op: z.enum([
+          "eq",
+          "ne",
+          "gt",
+          "gte",
+          "lt",
+          "lte",
+          "contains",
+          "startsWith",
+          "in",
+          "isNull",
+          "notNull",
+        ]),
+        value: z
+          .union([
+            z.string(),
+            z.number(),
+            z.boolean(),
+            z.array(z.union([z.string(), z.number()])),
+          ])
+          .optional(),
+      })
+    )
+    .max(20)
+    .optional()
+    .default([]),
+  groupBy: z.array(z.string().min(1)).max(5).optional().default([]),
+  aggregates: z
+    .array(
+      z.object({
+        fn: z.enum(["count", "countDistinct", "sum", "avg", "min", "max"]),
+        column: z.string().min(1).optional(),
+        as: z.string().min(1).optional(),
+      })
+    )
+    .max(10)
+    .optional()
+    .default([]),
+  orderBy: z
+    .object({
+      column: z.string().min(1),
+      direction: z.enum(["asc", "desc"]).optional().default("asc"),
+    })
+    .optional(),
+  limit: z.number().int().min(1).max(500).optional().default(20),
+  maxRowsScanned: z.number().int().min(1).max(2000000).optional().default(200000),
+});
+
+const queryDataFileOutputSchema = z.object({
+  bucket: z.string(),
+  key: z.string(),
+  format: tabularFormatSchema,
+
+  rowCount: z.number().int().nonnegative(),
+  columns: z.array(z.string()),
+  rows: z.array(z.record(z.any())),
+
+  schema: z.array(
+    z.object({
+      name: z.string(),
+      type: z.enum([
+        "integer",
+        "number",
+        "boolean",
+        "timestamp",
+        "string",
+        "object",
+        "null",
+        "mixed",
+      ]),
+      nullCount: z.number().int().nonnegative(),
+      example: z.string().optional(),
+    })
+  ),
+  rowsScanned: z.number().int().nonnegative(),
+  rowsMatched: z.number().int().nonnegative(),
+  invalidRows: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  stopReason: z.enum(["limit", "maxRowsScanned", "maxGroups"]).optional(),
+});
+
+const analyzeStorageInputSchema = z.object({
+  bucket: z.string().optional(),
+  prefix: z.string().optional().default(""),
+  depth: z.number().int().min(1).max(5).optional().default(2),
+  maxChildrenPerNode: z.number().int().min(1).max(100).optional().default(20),
+  // Caps the whole tree; depth 5 with 100 children per node would otherwise be unbounded
+  maxNodes: z.number().int().min(1).max(2000).optional().default(500),
+  maxObjects: z.number().int().min(1).max(100000).optional().default(20000),
+});
+
+const prefixNodeSchema = z.object({
+  prefix: z.string(),
+  depth: z.number().int().nonnegative(),
+  totalBytes: z.number().int().nonnegative(),
+  objectCount: z.number().int().nonnegative(),
+  omittedChildren: z.number().int().nonnegative(),
+  oldestLastModified: z.string().optional(),
+  newestLastModified: z.string().optional(),
+  storageClasses: z.array(
+    z.object({
+      storageClass: z.string(),
+      objects: z.number().int().nonnegative(),
+      bytes: z.number().int().nonnegative(),
+    })
+  ),
+  ageHistogram: z.array(
+    z.object({
+      label: z.string(),
+      minDays: z.number().int().nonnegative(),
+      maxDays: z.number().int().optional(),
+      objects: z.number().int().nonnegative(),
+      bytes: z.number().int().nonnegative(),
+    })
+  ),
+});
+
+const analyzeStorageOutputSchema = z.object({
+  bucket: z.string(),
+  prefix: z.string(),
+  depth: z.number().int(),
+
+  scanned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  hiddenByPolicy: z.number().int().nonnegative(),
+
+  nodeCount: z.number().int().nonnegative(),
+  // True when maxNodes cut folders from the tree; omittedChildren shows where
+  nodesTruncated: z.boolean(),
+  nodes: z.array(prefixNodeSchema),
+});
+
+const transitionTargetSchema = z.enum(transitionTargets);
+
+const lifecycleRuleSpecSchema = z.object({
+  id: z.string().min(1).max(255),
+  prefix: z.string(),
+  minSizeBytes: z.number().int().min(0),
+  transitionDays: z.number().int().min(1),
+  storageClass: transitionTargetSchema,
+});
+
+const recommendStorageInputSchema = z.object({
+  bucket: z.string().optional(),
+  prefixes: z.array(z.string()).min(1).max(20).optional().default([""]),
+  // Objects under 128 KB cost more to transition than they save
+  minSizeBytes: z.number().int().min(0).optional().default(128 * 1024),
+  transitionDays: z
+    .object({
+      STANDARD_IA: z.number().int().min(30).optional(),
+      GLACIER_IR: z.number().int().min(1).optional(),
+      GLACIER: z.number().int().min(1).optional(),
+      DEEP_ARCHIVE: z.number().int().min(1).optional(),
+    })
+    .optional()
+    .default({}),
+  maxObjectsPerPrefix: z.number().int().min(1).max(100000).optional().default(20000),
+});
+
+const transitionOptionSchema = z.object({
+  storageClass: transitionTargetSchema,
+  transitionDays: z.number().int(),
+  eligibleObjects: z.number().int().nonnegative(),
+  eligibleBytes: z.number().int().nonnegative(),
+  currentMonthlyCost: z.number(),
+  projectedMonthlyCost: z.number(),
+  monthlySavings: z.number(),
+  transitionCost: z.number(),
+  minStorageDays: z.number().int().optional(),
+});
+
+const prefixRecommendationSchema = z.object({
+  prefix: z.string(),
+  scanned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  objectCount: z.number().int().nonnegative(),
+  totalBytes: z.number().int().nonnegative(),
+  currentMonthlyCost: z.number(),
+  options: z.array(transitionOptionSchema),
+  recommended: transitionTargetSchema.optional(),
+  rule: lifecycleRuleSpecSchema.optional(),
+});
+
+const recommendStorageOutputSchema = z.object({
+  bucket: z.string(),
+  pricingVersion: z.string(),
+  pricingRegion: z.string(),
+  currency: z.string(),
+  prefixes: z.array(prefixRecommendationSchema),
+  totalMonthlySavings: z.number(),
+  rules: z.array(lifecycleRuleSpecSchema),
+  lifecycleConfigurationJson: z.string(),
+  notes: z.array(z.string()),
+});
+
+const applyLifecycleInputSchema = z.object({
+  bucket: z.string().optional(),
+  rules: z.array(lifecycleRuleSpecSchema).min(1).max(50),
+  confirm: z.boolean().optional().default(false),
+});
+
+const applyLifecycleOutputSchema = z.object({
+  bucket: z.string(),
+  added: z.array(z.string()),
+  replaced: z.array(z.string()),
+  totalRules: z.number().int().nonnegative(),
+});
+
+const auditBucketSecurityInputSchema = z.object({
+  buckets: z.array(z.string().min(1)).max(50).optional(),
+});
+
+const severitySchema = z.enum(["critical", "high", "medium", "low", "info"]);
+
+const bucketAuditSchema = z.object({
+  bucket: z.string(),
+  region: z.string().optional(),
+  highestSeverity: severitySchema.optional(),
+  findings: z.array(
+    z.object({
+      severity: severitySchema,
+      check: z.string(),
+      message: z.string(),
+    })
+  ),
+  settings: z
+    .object({
+      publicAccessBlock: z
+        .object({
+          blockPublicAcls: z.boolean(),
+          ignorePublicAcls: z.boolean(),
+          blockPublicPolicy: z.boolean(),
+          restrictPublicBuckets: z.boolean(),
+        })
+        .optional(),
+      encryption: z
+        .object({
+          algorithm: z.string().optional(),
+          kmsKeyId: z.string().optional(),
+          bucketKeyEnabled: z.boolean().optional(),
+        })
+        .optional(),
+      versioning: z
+        .object({
+          status: z.enum(["Enabled", "Suspended", "Disabled"]),
+          mfaDelete: z.enum(["Enabled", "Disabled"]),
+        })
+        .optional(),
+      lifecycleRules: z
+        .array(z.object({ id: z.string().optional(), status: z.string().optional() }))
+        .optional(),
+      policy: z.string().optional(),
+      aclGrants: z.array(z.object({ grantee: z.string(), permission: z.string() })).optional(),
+      logging: z
+        .object({
+          enabled: z.boolean(),
+          targetBucket: z.string().optional(),
+          targetPrefix: z.string().optional(),
+        })
+        .optional(),
+      objectOwnership: z.string().optional(),
+    })
+    .optional(),
+  error: z.string().optional(),
+});
+
+const auditBucketSecurityOutputSchema = z.object({
+  bucketCount: z.number().int().nonnegative(),
+  findingCounts: z.record(z.number().int().nonnegative()),
+  buckets: z.array(bucketAuditSchema),
+});
+
+const planDeletionInputSchema = z.object({
+  bucket: z.string().optional(),
+  prefix: z.string().optional().default(""),
+  olderThanDays: z.number().int().min(1).max(3650).optional().default(180),
+  minSizeBytes: z.number().int().min(0).optional().default(1024),
+  keys: z.array(z.string().min(1)).max(1000).optional(),
+  maxObjects: z.number().int().min(1).max(1000).optional().default(200),
+  expiresInMinutes: z.number().int().min(5).max(1440).optional().default(60),
+});
+
+const planDeletionOutputSchema = z.object({
+  bucket: z.string(),
+  prefix: z.string(),
+  planId: z.string(),
+  manifestKey: z.string(),
+  confirmationToken: z.string(),
+  expiresAt: z.string(),
+
+  scanned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  skippedByPolicy: z.number().int().nonnegative(),
+  requestedKeysNotEligible: z.array(z.string()),
+
+  keyCount: z.number().int().nonnegative(),
+  totalBytes: z.number().int().nonnegative(),
+  sample: z.array(oldObjectSchema),
+});
+
+const executeDeletionInputSchema = z.object({
+  bucket: z.string().optional(),
+  confirmationToken: z.string().min(1),
+  keys: z.array(z.string().min(1)).max(1000).optional(),
+});
+
+const deletionOutcomeSchema = z.object({
+  key: z.string(),
+  status: z.enum(["deleted", "failed", "refused"]),
+  code: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const executeDeletionOutputSchema = z.object({
+  bucket: z.string(),
+  planId: z.string(),
+  deletedCount: z.number().int().nonnegative(),
+  failedCount: z.number().int().nonnegative(),
+  refusedCount: z.number().int().nonnegative(),
+  deletedBytes: z.number().int().nonnegative(),
+  results: z.array(deletionOutcomeSchema),
+});
+
+const copyObjectsInputSchema = z.object({
+  sourceBucket: z.string().optional(),
+  sourceKey: z.string().min(1).optional(),
+  sourcePrefix: z.string().optional(),
+  destinationBucket: z.string().optional(),
+  destinationKey: z.string().min(1).optional(),
+  destinationPrefix: z.string().optional(),
+  relativeKeys: z.array(z.string().min(1)).max(10000).optional(),
+  move: z.boolean().optional().default(false),
+  overwrite: z.boolean().optional().default(false),
+  dryRun: z.boolean().optional().default(false),
+  jobId: z.string().min(1).optional(),
+  maxObjects: z.number().int().min(1).max(10000).optional().default(1000),
+  timeBudgetSeconds: z.number().int().min(10).max(600).optional().default(120),
+});
+
+const diffPrefixesInputSchema = z.object({
+  sourceBucket: z.string().optional(),
+  sourcePrefix: z.string().optional().default(""),
+  destinationBucket: z.string().optional(),
+  destinationPrefix: z.string().optional().default(""),
+  maxObjects: z.number().int().min(1).max(100000).optional().default(20000),
+  maxSample: z.number().int().min(0).max(200).optional().default(20),
+});
+
+const diffEntrySchema = z.object({
+  relativeKey: z.string(),
+  sourceSize: z.number().int().nonnegative().optional(),
+  destinationSize: z.number().int().nonnegative().optional(),
+  sourceEtag: z.string().optional(),
+  destinationEtag: z.string().optional(),
+  multipartEtag: z.boolean().optional(),
+});
+
+const diffCategorySchema = z.object({
+  count: z.number().int().nonnegative(),
+  bytes: z.number().int().nonnegative(),
+  sample: z.array(diffEntrySchema),
+});
+
+const diffPrefixesOutputSchema = z.object({
+  sourceBucket: z.string(),
+  sourcePrefix: z.string(),
+  destinationBucket: z.string(),
+  destinationPrefix: z.string(),
+
+  sourceCount: z.number().int().nonnegative(),
+  destinationCount: z.number().int().nonnegative(),
+  sourceTruncated: z.boolean(),
+  destinationTruncated: z.boolean(),
+  hiddenByPolicy: z.number().int().nonnegative(),
+
+  identicalCount: z.number().int().nonnegative(),
+  identicalBytes: z.number().int().nonnegative(),
+  onlyInSource: diffCategorySchema,
+  onlyInDestination: diffCategorySchema,
+  sizeMismatch: diffCategorySchema,
+  etagMismatch: diffCategorySchema,
+
+  // Omitted when either listing was truncated: keys past the cap would be missed, or
+  // unlisted destination objects overwritten
+  copyPlan: z
+    .object({
+      sourceBucket: z.string(),
+      sourcePrefix: z.string(),
+      destinationBucket: z.string(),
+      destinationPrefix: z.string(),
+      relativeKeys: z.array(z.string()),
+      overwrite: z.boolean(),
+      dryRun: z.boolean(),
+    })
+    .optional(),
+  copyPlanTruncated: z.boolean(),
+});
+
+const copyItemSchema = z.object({
+  sourceKey: z.string(),
+  destinationKey: z.string(),
+  size: z.number().int().nonnegative(),
+  status: z.enum([
+    "pending",
+    "copied",
+    "moved",
+    "already-present",
+    "exists",
+    "failed",
+    "refused",
+  ]),
+  code: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const copyObjectsOutputSchema = z.object({
+  sourceBucket: z.string(),
+  destinationBucket: z.string(),
+  move: z.boolean(),
+  dryRun: z.boolean(),
+  jobId: z.string().optional(),
+  manifestKey: z.string().optional(),
+  completed: z.boolean(),
+  listingTruncated: z.boolean(),
+  // Source objects the policy does not let this agent read; they are not named or sized
+  hiddenByPolicy: z.number().int().nonnegative(),
+
+  totalObjects: z.number().int().nonnegative(),
+  totalBytes: z.number().int().nonnegative(),
+  doneCount: z.number().int().nonnegative(),
+  pendingCount: z.number().int().nonnegative(),
+  existsCount: z.number().int().nonnegative(),
+  failedCount: z.number().int().nonnegative(),
+  refusedCount: z.number().int().nonnegative(),
+
+  results: z.array(copyItemSchema),
+  resultsTruncated: z.boolean(),
+});
+
+// Region schemas
+
+const regionNameSchema = z.string().regex(/^[a-z]{2}(-[a-z]+)+-\d+$/);
+
+// Regions to sweep; omit for AWS_REGION only, or "all-enabled" for every enabled region
+const regionsInputSchema = z
+  .union([
+    z.array(regionNameSchema).min(1).max(40),
+    z.literal(allEnabledRegions),
+  ])
+  .optional();
+
+const regionErrorSchema = z.object({
+  region: z.string(),
+  code: z.string().optional(),
+  message: z.string(),
+});
+
+// Cost schemas
+
+const costSummarySchema = z.object({
+  currency: z.string(),
+  catalogVersion: z.string(),
+  regions: z.array(z.string()),
+  hourlyTotal: z.number(),
+  monthlyTotal: z.number(),
+  unpricedCount: z.number().int().nonnegative(),
+  unpricedTypes: z.array(z.string()),
+});
+
 // EC2 schemas
 
-const listEc2InstancesInputSchema = z.object({
+const ec2InstanceFiltersSchema = z.object({
+  // Tag key to accepted values, e.g. {"Environment": ["prod"]}; [] matches any value
+  tags: z.record(z.array(z.string().min(1)).max(50)).optional(),
+  instanceTypes: z.array(z.string().min(1)).max(50).optional(),
+  availabilityZones: z.array(z.string().min(1)).max(20).optional(),
+  vpcIds: z.array(z.string().regex(/^vpc-[0-9a-f]+$/)).max(20).optional(),
+  subnetIds: z.array(z.string().regex(/^subnet-[0-9a-f]+$/)).max(50).optional(),
+  // Name tag pattern with * and ? wildcards, e.g. "web-*"
+  nameGlob: z.string().min(1).max(255).optional(),
+});
+
+const listEc2InstancesInputSchema = ec2InstanceFiltersSchema.extend({
+  regions: regionsInputSchema,
+  // Caps the merged result across all swept regions
   maxInstances: z.number().int().min(1).max(200).optional().default(50),
   states: z.array(z.string().min(1)).optional().default(["running"]),
+  includeCost: z.boolean().optional().default(false),
 });
 
 const ec2InstanceBasicSchema = z.object({
   instanceId: z.string(),
+  region: z.string(),
   name: z.string().optional(),
   instanceType: z.string().optional(),
   state: z.string().optional(),
   launchTime: z.string().optional(),
   availabilityZone: z.string().optional(),
+  hourlyCost: z.number().optional(),
+  monthlyCost: z.number().optional(),
 });
 
 const listEc2InstancesOutputSchema = z.object({
   count: z.number().int().nonnegative(),
   states: z.array(z.string()),
+  regions: z.array(z.string()),
+  regionErrors: z.array(regionErrorSchema),
+  // True when the swept regions held more than maxInstances records
+  truncated: z.boolean(),
   instances: z.array(ec2InstanceBasicSchema),
+  costSummary: costSummarySchema.optional(),
+});
+
+const getEc2InstanceInputSchema = z.object({
+  instanceId: z.string().regex(/^i-[0-9a-f]+$/),
+  // Defaults to AWS_REGION
+  region: regionNameSchema.optional(),
 });
 
+const getEc2InstanceOutputSchema = ec2InstanceBasicSchema
+  .omit({ hourlyCost: true, monthlyCost: true })
+  .extend({
+    privateIpAddress: z.string().optional(),
+    publicIpAddress: z.string().optional(),
+    privateDnsName: z.string().optional(),
+    publicDnsName: z.string().optional(),
+    vpcId: z.string().optional(),
+    subnetId: z.string().optional(),
+    imageId: z.string().optional(),
+    platform: z.string().optional(),
+    architecture: z.string().optional(),
+    keyName: z.string().optional(),
+    iamInstanceProfileArn: z.string().optional(),
+    metadataOptions: z
+      .object({
+        httpTokens: z.string().optional(),
+        imdsv2Required: z.boolean(),
+        httpEndpoint: z.string().optional(),
+        httpPutResponseHopLimit: z.number().int().optional(),
+      })
+      .optional(),
+    stateTransitionReason: z.string().optional(),
+    stateReason: z.object({ code: z.string().optional(), message: z.string().optional() }).optional(),
+    securityGroups: z.array(
+      z.object({ groupId: z.string().optional(), groupName: z.string().optional() })
+    ),
+    networkInterfaces: z.array(
+      z.object({
+        networkInterfaceId: z.string().optional(),
+        deviceIndex: z.number().int().optional(),
+        status: z.string().optional(),
+        subnetId: z.string().optional(),
+        macAddress: z.string().optional(),
+        privateIpAddresses: z.array(z.string()),
+        publicIp: z.string().optional(),
+        ipv6Addresses: z.array(z.string()),
+        securityGroupIds: z.array(z.string()),
+      })
+    ),
+    volumes: z.array(
+      z.object({
+        volumeId: z.string().optional(),
+        deviceName: z.string().optional(),
+        status: z.string().optional(),
+        attachTime: z.string().optional(),
+        deleteOnTermination: z.boolean().optional(),
+        sizeGb: z.number().int().optional(),
+        volumeType: z.string().optional(),
+        encrypted: z.boolean().optional(),
+      })
+    ),
+    rootDeviceName: z.string().optional(),
+    ebsOptimized: z.boolean().optional(),
+    monitoring: z.string().optional(),
+    hibernationConfigured: z.boolean(),
+    tags: z.record(z.string()),
+  });
+
 const detectIdleEc2InputSchema = z.object({
+  regions: regionsInputSchema,
   lookbackDays: z.number().int().min(1).max(30).optional().default(7),
+  // Caps the merged result across all swept regions
   maxInstances: z.number().int().min(1).max(200).optional().default(50),
+  // Named policy to apply to every instance; when omitted each instance gets the policy
+  // its tags select, or the default
+  policy: z.string().min(1).optional(),
+  overrides: idlePolicyOverridesSchema.optional(),
+  includeCost: z.boolean().optional().default(false),
 });
 
 const idleInstanceSchema = z.object({
   instanceId: z.string(),
+  region: z.string(),
   name: z.string().optional(),
   instanceType: z.string().optional(),
   state: z.string().optional(),
@@ -170,9 +1134,20 @@ const idleInstanceSchema = z.object({
   availabilityZone: z.string().optional(),
 
   cpuAvg: z.number().optional(),
+  cpuP95: z.number().optional(),
+  cpuMax: z.number().optional(),
+  cpuBurstPeriods: z.number().int().optional(),
   netInBytesTotal: z.number().optional(),
   netOutBytesTotal: z.number().optional(),
 
+  ebsReadOpsTotal: z.number().optional(),
+  ebsWriteOpsTotal: z.number().optional(),
+  ebsReadBytesTotal: z.number().optional(),
+  ebsWriteBytesTotal: z.number().optional(),
+
+  cpuCreditUsageTotal: z.number().optional(),
+  cpuCreditUsageMax: z.number().optional(),
+
   dataPointsCpu: z.number().int().optional(),
   dataPointsNetIn: z.number().int().optional(),
   dataPointsNetOut: z.number().int().optional(),
@@ -180,25 +1155,402 @@ const idleInstanceSchema = z.object({
   idle: z.boolean(),
   confidence: z.enum(["HIGH", "MEDIUM", "LOW"]),
   reason: z.array(z.string()),
+  policy: z.string(),
+  policySource: z.string(),
+
+  hourlyCost: z.number().optional(),
+  monthlyCost: z.number().optional(),
 });
 
 const detectIdleEc2OutputSchema = z.object({
   scanned: z.number().int().nonnegative(),
+  regions: z.array(z.string()),
+  regionErrors: z.array(regionErrorSchema),
+  // True when the swept regions held more than maxInstances records
+  truncated: z.boolean(),
   candidates: z.array(idleInstanceSchema),
+  costSummary: costSummarySchema.optional(),
+  // What stopping every idle candidate would save in compute
+  idleSavings: z
+    .object({
+      instanceCount: z.number().int().nonnegative(),
+      hourly: z.number(),
+      monthly: z.number(),
+    })
+    .optional(),
 });
 
-// RDS schemas
+const idlePolicySummarySchema = z.object({
+  name: z.string(),
+  isDefault: z.boolean(),
+  cpuThresholdPct: z.number(),
+  cpuP95ThresholdPct: z.number(),
+  cpuMaxThresholdPct: z.number(),
+  maxBurstPeriods: z.number().int(),
+  netTotalThresholdBytes: z.number(),
+  diskTotalThresholdBytes: z.number(),
+  periodSeconds: z.number().int(),
+  minDataPoints: z.number().int(),
+  excludeTagKeys: z.array(z.string()),
+  excludeTags: z.record(z.array(z.string())),
+});
 
-const listRdsInstancesInputSchema = z.object({
-  maxInstances: z.number().int().min(1).max(100).optional().default(50),
+const listIdlePoliciesOutputSchema = z.object({
+  defaultPolicy: z.string(),
+  policies: z.array(idlePolicySummarySchema),
+  selectors: z.array(
+    z.object({
+      tag: z.string(),
+      values: z.array(z.string()).optional(),
+      policy: z.string(),
+    })
+  ),
 });
 
-const rdsInstanceSummarySchema = z.object({
-  dbInstanceIdentifier: z.string(),
-  engine: z.string().optional(),
-  engineVersion: z.string().optional(),
-  instanceClass: z.string().optional(),
-  status: z.string().optional(),
+const planEc2ActionInputSchema = z.object({
+  instanceIds: z.array(z.string().regex(/^i-[0-9a-f]+$/)).min(1).max(50),
+  // Where to look for the instances; each one is acted on in the region that holds it
+  regions: regionsInputSchema,
+  action: z.enum(["stop", "hibernate", "terminate"]).optional().default("stop"),
+  // Written to the instance's <Verb>Reason tag
+  reason: z.string().min(3).max(256),
+  lookbackDays: z.number().int().min(1).max(30).optional().default(7),
+  // A named policy from EC2_IDLE_POLICY_FILE; its thresholds and exclusion tags cannot be
+  // adjusted per call, so a DoNotStop or Critical tag always protects the instance
+  policy: z.string().min(1).optional(),
+  expiresInMinutes: z.number().int().min(5).max(120).optional().default(30),
+});
+
+const ec2ActionOutcomeSchema = z.object({
+  instanceId: z.string(),
+  region: z.string().optional(),
+  status: z.enum(["stopped", "hibernated", "terminated", "failed", "refused"]),
+  previousState: z.string().optional(),
+  currentState: z.string().optional(),
+  code: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const planEc2ActionOutputSchema = z.object({
+  action: z.enum(["stop", "hibernate", "terminate"]),
+  planId: z.string().optional(),
+  confirmationToken: z.string().optional(),
+  expiresAt: z.string().optional(),
+  eligible: z.array(
+    z.object({
+      instanceId: z.string(),
+      region: z.string(),
+      name: z.string().optional(),
+      instanceType: z.string().optional(),
+      confidence: z.enum(["HIGH", "MEDIUM", "LOW"]),
+      policy: z.string(),
+      reason: z.array(z.string()),
+    })
+  ),
+  refused: z.array(ec2ActionOutcomeSchema),
+  regions: z.array(z.string()),
+  regionErrors: z.array(regionErrorSchema),
+});
+
+const executeEc2ActionInputSchema = z.object({
+  confirmationToken: z.string().min(1),
+  // Typed by the user for terminate: "terminate" followed by every instance ID in the plan
+  terminationPhrase: z.string().optional(),
+});
+
+const executeEc2ActionOutputSchema = z.object({
+  planId: z.string(),
+  action: z.enum(["stop", "hibernate", "terminate"]),
+  doneCount: z.number().int().nonnegative(),
+  failedCount: z.number().int().nonnegative(),
+  refusedCount: z.number().int().nonnegative(),
+  results: z.array(ec2ActionOutcomeSchema),
+});
+
+const recommendRightsizingInputSchema = z.object({
+  regions: regionsInputSchema,
+  instanceIds: z.array(z.string().regex(/^i-[0-9a-f]+$/)).min(1).max(100).optional(),
+  // Caps the merged result across all swept regions
+  maxInstances: z.number().int().min(1).max(200).optional().default(50),
+  lookbackDays: z.number().int().min(1).max(30).optional().default(14),
+});
+
+const sizingOptionSchema = z.object({
+  instanceType: z.string(),
+  vcpu: z.number(),
+  memoryGib: z.number(),
+  hourly: z.number(),
+  projectedCpuP95: z.number(),
+  projectedMemoryP95: z.number().optional(),
+  cpuHeadroomPct: z.number(),
+  memoryHeadroomPct: z.number().optional(),
+  monthlySavings: z.number(),
+});
+
+const rightsizingResultSchema = z.object({
+  instanceId: z.string(),
+  region: z.string(),
+  name: z.string().optional(),
+  instanceType: z.string().optional(),
+  status: z.enum(["oversized", "right-sized", "under-provisioned", "unknown"]),
+  confidence: z.enum(["HIGH", "MEDIUM", "LOW"]),
+  cpuP95: z.number().optional(),
+  cpuMax: z.number().optional(),
+  memoryP95: z.number().optional(),
+  memorySource: z.enum(["CWAgent", "none"]),
+  currentHourly: z.number().optional(),
+  recommendation: sizingOptionSchema.optional(),
+  sameFamilyOption: sizingOptionSchema.optional(),
+  reason: z.array(z.string()),
+});
+
+const recommendRightsizingOutputSchema = z.object({
+  catalog: z.object({
+    version: z.string(),
+    currency: z.string(),
+    operatingSystem: z.string(),
+  }),
+  regions: z.array(z.string()),
+  regionErrors: z.array(regionErrorSchema),
+  // True when the swept regions held more than maxInstances records
+  truncated: z.boolean(),
+  analyzed: z.number().int().nonnegative(),
+  oversizedCount: z.number().int().nonnegative(),
+  totalMonthlySavings: z.number(),
+  results: z.array(rightsizingResultSchema),
+});
+
+const previewEc2SchedulesInputSchema = z.object({
+  instanceIds: z.array(z.string().min(1)).max(100).optional(),
+  hours: z.number().int().min(1).max(336).optional().default(48),
+  recentActions: z.number().int().min(0).max(200).optional().default(20),
+});
+
+const scheduledInstanceSchema = z.object({
+  instanceId: z.string(),
+  name: z.string().optional(),
+  state: z.string().optional(),
+  schedule: z.string(),
+  timeZone: z.string().optional(),
+  error: z.string().optional(),
+  pausedUntil: z.string().optional(),
+  desiredState: z.enum(["running", "stopped"]).optional(),
+  nextActions: z.array(
+    z.object({
+      action: z.enum(["start", "stop"]),
+      at: z.string(),
+      localTime: z.string(),
+    })
+  ),
+});
+
+const previewEc2SchedulesOutputSchema = z.object({
+  mode: z.enum(["off", "dry-run", "live"]),
+  intervalSeconds: z.number().int(),
+  holidays: z.array(z.string()),
+  instances: z.array(scheduledInstanceSchema),
+  recentActions: z.array(
+    z.object({
+      at: z.string(),
+      instanceId: z.string(),
+      name: z.string().optional(),
+      action: z.enum(["start", "stop"]),
+      schedule: z.string(),
+      mode: z.enum(["dry-run", "live"]),
+      outcome: z.enum(["done", "would-do", "failed"]),
+      code: z.string().optional(),
+      message: z.string().optional(),
+    })
+  ),
+  // Set while the most recent tick failed as a whole (e.g. listing instances was denied)
+  lastTickFailure: z.object({ at: z.string(), message: z.string() }).optional(),
+});
+
+const pauseEc2ScheduleInputSchema = z.object({
+  instanceId: z.string().regex(/^i-[0-9a-f]+$/),
+  hours: z.number().min(1).max(720).optional(),
+  resume: z.boolean().optional().default(false),
+});
+
+const pauseEc2ScheduleOutputSchema = z.object({
+  instanceId: z.string(),
+  schedule: z.string(),
+  pausedUntil: z.string().optional(),
+  resumed: z.boolean(),
+});
+
+const auditEc2SecurityGroupsInputSchema = z.object({
+  // Replaces the default list (SSH, RDP, databases, caches, ...) when given
+  sensitivePorts: z.array(z.number().int().min(0).max(65535)).min(1).max(100).optional(),
+  broadRangeMinPorts: z.number().int().min(2).max(65536).optional().default(100),
+  maxInstances: z.number().int().min(1).max(1000).optional().default(500),
+  // Defaults to AWS_REGION
+  region: regionNameSchema.optional(),
+});
+
+const securityGroupInstanceRefSchema = z.object({
+  instanceId: z.string(),
+  name: z.string().optional(),
+  publicIpAddress: z.string().optional(),
+});
+
+const auditEc2SecurityGroupsOutputSchema = z.object({
+  region: z.string(),
+  instancesScanned: z.number().int().nonnegative(),
+  // True when the region has more than maxInstances running instances; findings then keep
+  // critical severity for groups whose users were not all checked
+  instancesTruncated: z.boolean(),
+  groupCount: z.number().int().nonnegative(),
+  ruleCount: z.number().int().nonnegative(),
+  sensitivePorts: z.array(z.object({ port: z.number().int(), service: z.string() })),
+  findingCounts: z.record(z.number().int().nonnegative()),
+  findings: z.array(
+    z.object({
+      severity: severitySchema,
+      check: z.enum(["internet-sensitive-port", "internet-open", "broad-port-range", "unused-group"]),
+      message: z.string(),
+      groupId: z.string(),
+      groupName: z.string().optional(),
+      rule: z
+        .object({
+          protocol: z.string(),
+          fromPort: z.number().int().optional(),
+          toPort: z.number().int().optional(),
+          source: z.string(),
+          sourceType: z.enum(["ipv4", "ipv6", "security-group", "prefix-list"]),
+          description: z.string().optional(),
+        })
+        .optional(),
+      instances: z.array(securityGroupInstanceRefSchema),
+    })
+  ),
+  // Running instances reachable from 0.0.0.0/0 or ::/0 on a sensitive port
+  exposedInstances: z.array(
+    securityGroupInstanceRefSchema.extend({
+      exposures: z.array(
+        z.object({
+          port: z.number().int(),
+          service: z.string(),
+          protocol: z.string(),
+          groupId: z.string(),
+          source: z.string(),
+        })
+      ),
+    })
+  ),
+});
+
+// EBS schemas
+
+const findUnattachedEbsVolumesInputSchema = z.object({
+  minAgeDays: z.number().int().min(0).max(3650).optional().default(0),
+  maxResults: z.number().int().min(1).max(200).optional().default(50),
+  // Defaults to AWS_REGION
+  region: regionNameSchema.optional(),
+});
+
+const unattachedVolumeSchema = z.object({
+  volumeId: z.string(),
+  name: z.string().optional(),
+  volumeType: z.string().optional(),
+  sizeGb: z.number().int().optional(),
+  availabilityZone: z.string().optional(),
+  createTime: z.string().optional(),
+  ageDays: z.number().int().optional(),
+  lastAttachedAt: z.string().optional(),
+  snapshotId: z.string().optional(),
+  monthlyCost: z.number().optional(),
+});
+
+const ebsWasteTotalsSchema = {
+  region: z.string(),
+  currency: z.string(),
+  scanned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  resultCount: z.number().int().nonnegative(),
+  totalSizeGb: z.number().nonnegative(),
+  totalMonthlyCost: z.number(),
+};
+
+const findUnattachedEbsVolumesOutputSchema = z.object({
+  minAgeDays: z.number().int(),
+  ...ebsWasteTotalsSchema,
+  volumes: z.array(unattachedVolumeSchema),
+});
+
+const findGp2ToGp3SavingsInputSchema = z.object({
+  maxResults: z.number().int().min(1).max(200).optional().default(50),
+  // Defaults to AWS_REGION
+  region: regionNameSchema.optional(),
+});
+
+const gp2ConversionSchema = z.object({
+  volumeId: z.string(),
+  name: z.string().optional(),
+  sizeGb: z.number().int(),
+  state: z.string().optional(),
+  attachedInstanceId: z.string().optional(),
+  gp2Iops: z.number().int(),
+  gp3Iops: z.number().int(),
+  gp3ThroughputMibps: z.number().int(),
+  currentMonthlyCost: z.number(),
+  gp3MonthlyCost: z.number(),
+  monthlySavings: z.number(),
+});
+
+const findGp2ToGp3SavingsOutputSchema = z.object({
+  region: z.string(),
+  currency: z.string(),
+  scanned: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  resultCount: z.number().int().nonnegative(),
+  totalSizeGb: z.number().nonnegative(),
+  totalMonthlySavings: z.number(),
+  volumes: z.array(gp2ConversionSchema),
+});
+
+const findStaleEbsSnapshotsInputSchema = z.object({
+  olderThanDays: z.number().int().min(1).max(3650).optional().default(90),
+  maxResults: z.number().int().min(1).max(200).optional().default(50),
+  // Defaults to AWS_REGION
+  region: regionNameSchema.optional(),
+});
+
+const staleSnapshotSchema = z.object({
+  snapshotId: z.string(),
+  volumeId: z.string().optional(),
+  description: z.string().optional(),
+  sizeGb: z.number().optional(),
+  sizeSource: z.enum(["full-snapshot", "volume"]),
+  startTime: z.string().optional(),
+  ageDays: z.number().int().optional(),
+  reasons: z.array(z.string()),
+  sourceVolumeExists: z.boolean().optional(),
+  usedByImageIds: z.array(z.string()),
+  monthlyCost: z.number().optional(),
+});
+
+const findStaleEbsSnapshotsOutputSchema = z.object({
+  olderThanDays: z.number().int(),
+  ...ebsWasteTotalsSchema,
+  snapshots: z.array(staleSnapshotSchema),
+});
+
+// RDS schemas
+
+const listRdsInstancesInputSchema = z.object({
+  regions: regionsInputSchema,
+  // Caps the merged result across all swept regions
+  maxInstances: z.number().int().min(1).max(100).optional().default(50),
+  includeCost: z.boolean().optional().default(false),
+});
+
+const rdsInstanceSummarySchema = z.object({
+  dbInstanceIdentifier: z.string(),
+  engine: z.string().optional(),
+  engineVersion: z.string().optional(),
+  instanceClass: z.string().optional(),
+  status: z.string().optional(),
   endpointAddress: z.string().optional(),
   endpointPort: z.number().int().optional(),
   availabilityZone: z.string().optional(),
@@ -206,12 +1558,24 @@ const rdsInstanceSummarySchema = z.object({
   storageEncrypted: z.boolean().optional(),
   multiAz: z.boolean().optional(),
   allocatedStorageGb: z.number().int().optional(),
+  storageType: z.string().optional(),
   dbName: z.string().optional(),
 });
 
 const listRdsInstancesOutputSchema = z.object({
   count: z.number().int().nonnegative(),
-  instances: z.array(rdsInstanceSummarySchema),
+  regions: z.array(z.string()),
+  regionErrors: z.array(regionErrorSchema),
+  // True when the swept regions held more than maxInstances records
+  truncated: z.boolean(),
+  instances: z.array(
+    rdsInstanceSummarySchema.extend({
+      region: z.string(),
+      hourlyCost: z.number().optional(),
+      monthlyCost: z.number().optional(),
+    })
+  ),
+  costSummary: costSummarySchema.optional(),
 });
 
 const getRdsInstanceInputSchema = z.object({
@@ -253,13 +1617,13 @@ const listRdsSnapshotsOutputSchema = z.object({
 
 const rdsCpuInputSchema = z.object({
   dbInstanceIdentifier: z.string().min(1),
+  regions: regionsInputSchema,
   lookbackHours: z.number().int().min(1).max(168).optional().default(6),
   periodSeconds: z.number().int().min(60).max(3600).optional().default(300),
 });
 
-const rdsCpuOutputSchema = z.object({
-  dbInstanceIdentifier: z.string(),
-  periodSeconds: z.number().int(),
+const rdsCpuRegionSchema = z.object({
+  region: z.string(),
   datapoints: z.number().int().nonnegative(),
   average: z.number().optional(),
   minimum: z.number().optional(),
@@ -268,6 +1632,15 @@ const rdsCpuOutputSchema = z.object({
   latestAverage: z.number().optional(),
 });
 
+const rdsCpuOutputSchema = z.object({
+  dbInstanceIdentifier: z.string(),
+  periodSeconds: z.number().int(),
+  regions: z.array(z.string()),
+  regionErrors: z.array(regionErrorSchema),
+  // Regions where the instance reported CPU; every swept region when none did
+  results: z.array(rdsCpuRegionSchema),
+});
+
 const queryRdsInputSchema = z.object({
   sql: z.string().min(1),
   maxRows: z.number().int().min(1).max(500).optional().default(100),
@@ -289,7 +1662,7 @@ function formatAwsErrorMessage(error: any): string {
     return "AWS denied the request (AccessDenied). This usually means the IAM user is missing a required permission.";
   }
 
-  if (errorCode === "NoSuchKey") {
+  if (errorCode === "NoSuchKey" || errorCode === "NotFound") {
     return "That file key does not exist. Tell me the folder/prefix and I can list files to help you find it.";
   }
 
@@ -304,6 +1677,100 @@ function formatAwsErrorMessage(error: any): string {
     return `Bucket '${requested}' is not allowed. Allowed buckets: ${allowedBuckets.join(", ")}.`;
   }
 
+  if (errorCode === "CopyJobNotFound") {
+    return `${error.message} Start a new copy instead of resuming.`;
+  }
+
+  if (
+    errorCode === "DeletionTokenInvalid" ||
+    errorCode === "DeletionPlanNotFound" ||
+    errorCode === "DeletionPlanExpired" ||
+    errorCode === "DeletionPlanAlreadyExecuted"
+  ) {
+    return `Deletion refused: ${error.message}`;
+  }
+
+  if (
+    errorCode === "ZipArchive" ||
+    errorCode === "NotAZip" ||
+    errorCode === "ZipEntryNotFound" ||
+    errorCode === "ZipTooLarge" ||
+    errorCode === "InvalidZip" ||
+    errorCode === "UnsupportedCompression"
+  ) {
+    return error.message;
+  }
+
+  if (typeof error?.code === "string" && error.code.startsWith("Z_")) {
+    return `The object could not be decompressed (${error.code}). It may be corrupt or not really compressed.`;
+  }
+
+  if (
+    errorCode === "VersioningDisabled" ||
+    errorCode === "VersionNotFound" ||
+    errorCode === "DeleteMarkerVersion"
+  ) {
+    return error.message;
+  }
+
+  if (errorCode === "NoSuchVersion") {
+    return "That version ID does not exist for this key. Call listObjectVersions to see valid versions.";
+  }
+
+  if (errorCode === "InvalidTag") {
+    return `S3 rejected the tags: ${error.message}`;
+  }
+
+  if (errorCode === "UploadExpiryTooLong") {
+    return error.message;
+  }
+
+  if (
+    errorCode === "Ec2ActionTokenInvalid" ||
+    errorCode === "Ec2ActionPlanNotFound" ||
+    errorCode === "Ec2ActionPlanExpired" ||
+    errorCode === "Ec2ActionPlanAlreadyExecuted" ||
+    errorCode === "TerminationNotConfirmed"
+  ) {
+    return `EC2 action refused: ${error.message}`;
+  }
+
+  if (errorCode === "InvalidSchedule" || errorCode === "NotScheduled") {
+    return error.message;
+  }
+
+  if (errorCode === "Ec2InstanceNotFound") {
+    return `${error.message} Use listEc2Instances to find the instance ID.`;
+  }
+
+  if (errorCode === "InvalidInstanceID.Malformed") {
+    return "That is not a valid EC2 instance ID. IDs look like i-0123456789abcdef0.";
+  }
+
+  if (errorCode === "UnknownIdlePolicy") {
+    return `${error.message} Use listIdlePolicies to see how each one is configured.`;
+  }
+
+  if (errorCode === "WriteConflict") {
+    return `Write conflict: ${error.message}`;
+  }
+
+  if (
+    errorCode === "UnknownColumn" ||
+    errorCode === "InvalidTabularData" ||
+    errorCode === "TabularTooLarge"
+  ) {
+    return error.message;
+  }
+
+  if (errorCode === "InvalidSearchPattern") {
+    return error.message;
+  }
+
+  if (errorCode === "BinaryObject") {
+    return `${error.message} Use presignDownload to get a download link instead.`;
+  }
+
   if (errorCode === "DBInstanceNotFound") {
     return "That RDS instance identifier does not exist or is not accessible.";
   }
@@ -316,88 +1783,1533 @@ function formatAwsErrorMessage(error: any): string {
     return "MySQL access denied. Check RDS_USER and RDS_PASSWORD.";
   }
 
-  if (errorCode === "ER_BAD_DB_ERROR") {
-    return "Unknown database. Check RDS_DB or remove it to use the default.";
+  if (errorCode === "ER_BAD_DB_ERROR") {
+    return "Unknown database. Check RDS_DB or remove it to use the default.";
+  }
+
+  if (errorCode === "ENOTFOUND") {
+    return "RDS host not found. Check RDS_HOST and the instance endpoint.";
+  }
+
+  if (errorCode === "ECONNREFUSED") {
+    return "Connection refused. Check the RDS security group inbound rule for port 3306.";
+  }
+
+  if (errorCode === "ETIMEDOUT") {
+    return "Connection timed out. The RDS instance may not be reachable from this network/VPC.";
+  }
+
+  if (errorCode === "EHOSTUNREACH") {
+    return "Host unreachable. The RDS instance may be in a private VPC.";
+  }
+
+  if (errorCode === "OnlyReadQueriesAllowed") {
+    return "Only read-only SQL queries are allowed (SELECT/SHOW/DESCRIBE).";
+  }
+
+  if (errorCode === "Missing RDS_HOST") {
+    return "Missing RDS_HOST environment variable.";
+  }
+
+  if (errorCode === "Missing RDS_USER") {
+    return "Missing RDS_USER environment variable.";
+  }
+
+  if (errorCode === "Missing RDS_PASSWORD") {
+    return "Missing RDS_PASSWORD environment variable.";
+  }
+
+  if (errorCode === "MissingAllowedBuckets") {
+    return "Missing ALLOWED_BUCKETS environment variable. Set it to a comma-separated list of bucket names, or list buckets in S3_POLICY_FILE.";
+  }
+
+  if (errorCode === "S3AccessDenied") {
+    return `Blocked by the S3 access policy: ${error.message}`;
+  }
+
+  if (errorCode === "PermanentRedirect" || httpStatusCode === 301) {
+    return "AWS says this bucket must be accessed using a different regional endpoint. Double-check the bucket region matches AWS_REGION.";
+  }
+
+  if (error?.message && error?.message !== "Error") {
+    return error.message;
+  }
+
+  return `AWS error: ${errorCode ?? "UnknownError"}`;
+}
+
+// Daemo tools
+
+export class AwsFunctions {
+  @DaemoFunction({
+    description:
+      "Lists the S3 buckets this agent is allowed to access (configured via ALLOWED_BUCKETS and S3_POLICY_FILE).",
+    inputSchema: emptyInputSchema,
+    outputSchema: listBucketsOutputSchema,
+  })
+  async listAllowedBuckets(): Promise<z.infer<typeof listBucketsOutputSchema>> {
+    return {
+      count: allowedBuckets.length,
+      buckets: allowedBuckets,
+    };
+  }
+
+  @DaemoFunction({
+    description:
+      "Lists file keys in an allowed S3 bucket. Optionally provide bucket, prefix like 'logs/', and a limit.",
+    inputSchema: listFilesInputSchema,
+    outputSchema: listFilesOutputSchema,
+  })
+  async listFiles(
+    args: z.infer<typeof listFilesInputSchema>
+  ): Promise<z.infer<typeof listFilesOutputSchema>> {
+    const { bucket: requestedBucket, prefix, limit } = args;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3PrefixAccess(s3AccessPolicy, bucket, prefix, "read");
+      const listed = await listS3Objects(bucket, prefix, limit);
+      const { allowed: keys, hidden } = filterReadableKeys(s3AccessPolicy, bucket, listed);
+      return { bucket, prefix, count: keys.length, hiddenByPolicy: hidden, keys };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Inspects one or more keys in an allowed S3 bucket without downloading them: size, ETag, content type, storage class, archive and restore status, server-side encryption, user metadata and object tags. Missing or blocked keys come back with an error field.",
+    inputSchema: inspectObjectsInputSchema,
+    outputSchema: inspectObjectsOutputSchema,
+  })
+  async inspectObjects(
+    args: z.infer<typeof inspectObjectsInputSchema>
+  ): Promise<z.infer<typeof inspectObjectsOutputSchema>> {
+    const { bucket: requestedBucket, keys, versionId } = args;
+
+    if (versionId && keys.length > 1) {
+      throw new Error("versionId can only be used when inspecting a single key.");
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+
+      const objects = await Promise.all(
+        [...new Set(keys)].map(async (key) => {
+          try {
+            assertS3Access(s3AccessPolicy, bucket, key, "read");
+            return await inspectS3Object(bucket, key, versionId);
+          } catch (error: any) {
+            return { key, error: formatAwsErrorMessage(error) };
+          }
+        })
+      );
+
+      return { bucket, count: objects.length, objects };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Reads a text file from an allowed S3 bucket by key (optionally a specific versionId). gzip and zstd files are decompressed automatically (zstd only when the agent runs on Node 22.15 or newer); for zip archives pass zipEntry (see listZipEntries). Large files are capped at maxBytes (default 256 KB); use startByte/endByte, headLines or tailLines to read part of a file (tailLines on a compressed file or zip entry only works when it decompresses to at most maxBytes). Reports totalBytes and whether the result was truncated. Binary files are refused.",
+    inputSchema: readTextInputSchema,
+    outputSchema: readTextOutputSchema,
+  })
+  async readTextFile(
+    args: z.infer<typeof readTextInputSchema>
+  ): Promise<z.infer<typeof readTextOutputSchema>> {
+    const {
+      bucket: requestedBucket,
+      key,
+      startByte,
+      endByte,
+      headLines,
+      tailLines,
+      zipEntry,
+      versionId,
+      maxBytes,
+    } = args;
+
+    const readModes = [
+      startByte !== undefined || endByte !== undefined,
+      headLines !== undefined,
+      tailLines !== undefined,
+    ].filter(Boolean).length;
+    if (readModes > 1) {
+      throw new Error("Use only one of startByte/endByte, headLines or tailLines.");
+    }
+    if (startByte !== undefined && endByte !== undefined && endByte < startByte) {
+      throw new Error("endByte must be greater than or equal to startByte.");
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3Access(s3AccessPolicy, bucket, key, "read");
+      return await getTextObjectSlice(bucket, key, {
+        startByte,
+        endByte,
+        headLines,
+        tailLines,
+        maxBytes,
+        zipEntry,
+        versionId,
+      });
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Lists the files inside a zip archive stored in an allowed S3 bucket, without downloading the whole archive. Use readTextFile with zipEntry to read one of them.",
+    inputSchema: listZipEntriesInputSchema,
+    outputSchema: listZipEntriesOutputSchema,
+  })
+  async listZipEntries(
+    args: z.infer<typeof listZipEntriesInputSchema>
+  ): Promise<z.infer<typeof listZipEntriesOutputSchema>> {
+    const { bucket: requestedBucket, key, maxEntries } = args;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3Access(s3AccessPolicy, bucket, key, "read");
+
+      const { totalBytes, entries } = await listZipArchiveEntries(bucket, key);
+      const files = entries.filter((entry) => !entry.isDirectory);
+
+      return {
+        bucket,
+        key,
+        totalBytes,
+        entryCount: files.length,
+        truncated: files.length > maxEntries,
+        entries: files.slice(0, maxEntries).map((entry) => ({
+          name: entry.name,
+          compressedBytes: entry.compressedBytes,
+          uncompressedBytes: entry.uncompressedBytes,
+          lastModified: entry.lastModified,
+        })),
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Lists the version history of one key in an allowed S3 bucket, newest first, including delete markers. Use readTextFile with versionId to read an old version and restoreObjectVersion to bring one back.",
+    inputSchema: listVersionsInputSchema,
+    outputSchema: listVersionsOutputSchema,
+  })
+  async listObjectVersions(
+    args: z.infer<typeof listVersionsInputSchema>
+  ): Promise<z.infer<typeof listVersionsOutputSchema>> {
+    const { bucket: requestedBucket, key, maxVersions } = args;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3Access(s3AccessPolicy, bucket, key, "read");
+      const versioningStatus = await assertVersioningEnabled(bucket);
+
+      const { versions, truncated } = await listS3ObjectVersions(bucket, key, maxVersions);
+      const latest = versions.find((version) => version.isLatest);
+
+      return {
+        bucket,
+        key,
+        versioningStatus: versioningStatus === "Enabled" ? "Enabled" : "Suspended",
+        currentlyDeleted: latest?.isDeleteMarker === true,
+        count: versions.length,
+        truncated,
+        versions,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Restores a previous version of a key in an allowed S3 bucket by copying it over the current version. Works for keys that were deleted (current version is a delete marker). The old version is kept in the history.",
+    inputSchema: restoreVersionInputSchema,
+    outputSchema: restoreVersionOutputSchema,
+  })
+  async restoreObjectVersion(
+    args: z.infer<typeof restoreVersionInputSchema>
+  ): Promise<z.infer<typeof restoreVersionOutputSchema>> {
+    const { bucket: requestedBucket, key, versionId } = args;
+
+    // Enough history to find the version the user picked from listObjectVersions
+    const maxVersionsToSearch = 1000;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3Access(s3AccessPolicy, bucket, key, "read");
+      assertS3Access(s3AccessPolicy, bucket, key, "write");
+      await assertVersioningEnabled(bucket);
+
+      const { versions } = await listS3ObjectVersions(bucket, key, maxVersionsToSearch);
+      const target = versions.find((version) => version.versionId === versionId);
+      if (!target) {
+        const error = new Error(`Version ${versionId} was not found for key "${key}".`);
+        error.name = "VersionNotFound";
+        throw error;
+      }
+      if (target.isDeleteMarker) {
+        const error = new Error(
+          `Version ${versionId} is a delete marker, not content. Pick an earlier version to restore.`
+        );
+        error.name = "DeleteMarkerVersion";
+        throw error;
+      }
+
+      if (target.isLatest) {
+        throw new Error(`Version ${versionId} is already the current version of "${key}".`);
+      }
+
+      const latest = versions.find((version) => version.isLatest);
+      const restored = await restoreS3ObjectVersion(bucket, key, versionId);
+
+      return {
+        bucket,
+        key,
+        restoredFromVersionId: versionId,
+        newVersionId: restored.versionId,
+        etag: restored.etag,
+        wasDeleted: latest?.isDeleteMarker === true,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Writes a text file to an allowed S3 bucket at the given key. mode: overwrite (default), create-only (fails if the key exists), if-match (pass expectedEtag from readTextFile for safe read-modify-write), or overwrite-with-backup (copies the current file to a backup key first).",
+    inputSchema: writeTextInputSchema,
+    outputSchema: writeTextOutputSchema,
+  })
+  async writeTextFile(
+    args: z.infer<typeof writeTextInputSchema>
+  ): Promise<z.infer<typeof writeTextOutputSchema>> {
+    const { bucket: requestedBucket, key, content, contentType, mode, expectedEtag } = args;
+
+    if (mode === "if-match" && !expectedEtag) {
+      throw new Error("mode if-match needs expectedEtag (the etag returned by readTextFile).");
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      if (isReservedKey(key)) {
+        throw new Error(
+          `Keys under "${agentReservedPrefix}" are reserved for deletion plans and backups.`
+        );
+      }
+      assertS3Access(s3AccessPolicy, bucket, key, "write");
+      if (mode === "overwrite-with-backup") {
+        assertS3Access(s3AccessPolicy, bucket, key, "read");
+      }
+
+      const result = await writeTextObject(bucket, key, content, contentType, mode, expectedEtag);
+      return { bucket, key, mode, ...result };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Sets or removes tags on one object in an allowed S3 bucket. set adds or changes tags by name, remove deletes tags by name, and all other tags are kept. S3 allows at most 10 tags per object.",
+    inputSchema: updateObjectTagsInputSchema,
+    outputSchema: updateObjectTagsOutputSchema,
+  })
+  async updateObjectTags(
+    args: z.infer<typeof updateObjectTagsInputSchema>
+  ): Promise<z.infer<typeof updateObjectTagsOutputSchema>> {
+    const { bucket: requestedBucket, key, set, remove } = args;
+
+    const maxTagsPerObject = 10;
+
+    if (Object.keys(set).length === 0 && remove.length === 0) {
+      throw new Error("Pass tags to set or tag names to remove.");
+    }
+    for (const name of Object.keys(set)) {
+      if (name.length === 0 || name.length > 128) {
+        throw new Error(`Tag name "${name}" must be 1 to 128 characters.`);
+      }
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      if (isReservedKey(key)) {
+        throw new Error(`Keys under "${agentReservedPrefix}" are reserved for the agent.`);
+      }
+      assertS3Access(s3AccessPolicy, bucket, key, "write");
+
+      // S3 has no conditional tagging, so this read-modify-write can race another writer
+      const previousTags = await getObjectTags(bucket, key);
+      const merged = new Map(previousTags.map((tag) => [tag.key, tag.value]));
+      for (const name of remove) merged.delete(name);
+      for (const [name, value] of Object.entries(set)) merged.set(name, value);
+
+      if (merged.size > maxTagsPerObject) {
+        throw new Error(
+          `Objects can have at most ${maxTagsPerObject} tags; this change would leave ${merged.size}.`
+        );
+      }
+
+      const tags = [...merged].map(([name, value]) => ({ key: name, value }));
+      await putObjectTags(bucket, key, tags);
+
+      return { bucket, key, previousTags, tags };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Creates a temporary download link (presigned URL) for a file in an allowed S3 bucket.",
+    inputSchema: presignDownloadInputSchema,
+    outputSchema: presignDownloadOutputSchema,
+  })
+  async presignDownload(
+    args: z.infer<typeof presignDownloadInputSchema>
+  ): Promise<z.infer<typeof presignDownloadOutputSchema>> {
+    const { bucket: requestedBucket, key, expiresInSeconds } = args;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3Access(s3AccessPolicy, bucket, key, "read");
+      const url = await createPresignedGetUrl(bucket, key, expiresInSeconds);
+      return { url, expiresInSeconds };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Creates a temporary upload link for an allowed S3 bucket so someone outside AWS can drop a file in. method POST (default) returns a url plus form fields and supports a fixed key or a keyPrefix, a required contentType and a minBytes/maxBytes size range. method PUT needs a fixed key and supports contentType and an exact contentLength. S3 rejects uploads outside these constraints. Every link is recorded for auditing.",
+    inputSchema: presignUploadInputSchema,
+    outputSchema: presignUploadOutputSchema,
+  })
+  async presignUpload(
+    args: z.infer<typeof presignUploadInputSchema>
+  ): Promise<z.infer<typeof presignUploadOutputSchema>> {
+    const {
+      bucket: requestedBucket,
+      method,
+      key,
+      keyPrefix,
+      contentType,
+      contentLength,
+      minBytes,
+      maxBytes,
+      expiresInSeconds,
+    } = args;
+
+    if ((key === undefined) === (keyPrefix === undefined)) {
+      throw new Error("Pass exactly one of key or keyPrefix.");
+    }
+    if (method === "PUT" && key === undefined) {
+      throw new Error("PUT upload links need a fixed key. Use method POST for a keyPrefix.");
+    }
+    if (method === "PUT" && (minBytes !== undefined || maxBytes !== undefined)) {
+      throw new Error(
+        "PUT upload links cannot enforce a size range. Use method POST, or pass contentLength."
+      );
+    }
+    if (method === "POST" && contentLength !== undefined) {
+      throw new Error("POST upload links take minBytes/maxBytes instead of contentLength.");
+    }
+    if (minBytes !== undefined && maxBytes !== undefined && minBytes > maxBytes) {
+      throw new Error("minBytes cannot be greater than maxBytes.");
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      // A prefix that covers the reserved folder would let uploaders forge plans or audit records
+      const target = key ?? keyPrefix ?? "";
+      if (isReservedKey(target) || (key === undefined && agentReservedPrefix.startsWith(target))) {
+        throw new Error(
+          `Upload links cannot cover "${agentReservedPrefix}", which is reserved for the agent. Use a more specific keyPrefix.`
+        );
+      }
+      if (key !== undefined) {
+        assertS3Access(s3AccessPolicy, bucket, key, "write");
+      } else {
+        // The link lets the holder write any key under keyPrefix
+        assertS3WholePrefixAccess(s3AccessPolicy, bucket, target, "write");
+      }
+
+      return await issueUploadUrl(
+        bucket,
+        method,
+        { key, keyPrefix, contentType, contentLength, minBytes, maxBytes },
+        expiresInSeconds,
+        uploadExpiryCeilingSeconds
+      );
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Lists upload links issued by presignUpload for an allowed S3 bucket, newest first, with their key, size, content type and expiry constraints.",
+    inputSchema: listUploadGrantsInputSchema,
+    outputSchema: listUploadGrantsOutputSchema,
+  })
+  async listUploadGrants(
+    args: z.infer<typeof listUploadGrantsInputSchema>
+  ): Promise<z.infer<typeof listUploadGrantsOutputSchema>> {
+    const { bucket: requestedBucket, sinceDays, limit } = args;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      const grants = await listUploadGrants(bucket, sinceDays, limit);
+      return { bucket, count: grants.length, grants };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Compares two S3 prefixes, in one allowed bucket or across two, by key relative to each prefix. Reports keys only in the source, only in the destination, size mismatches and ETag mismatches with counts, bytes and a sample of each. ETag mismatches flagged multipartEtag may be identical content uploaded in parts. copyPlan holds copyObjects arguments that would bring the destination up to date; run it with dryRun first. copyPlan is omitted when either listing hit maxObjects (sourceTruncated or destinationTruncated); narrow the prefixes or raise maxObjects instead.",
+    inputSchema: diffPrefixesInputSchema,
+    outputSchema: diffPrefixesOutputSchema,
+  })
+  async diffPrefixes(
+    args: z.infer<typeof diffPrefixesInputSchema>
+  ): Promise<z.infer<typeof diffPrefixesOutputSchema>> {
+    const {
+      sourceBucket: requestedSourceBucket,
+      sourcePrefix,
+      destinationBucket: requestedDestinationBucket,
+      destinationPrefix,
+      maxObjects,
+      maxSample,
+    } = args;
+
+    const pageSize = 1000;
+    const maxKeysToCopy = 10000;
+
+    try {
+      const sourceBucket = resolveBucket(requestedSourceBucket);
+      const destinationBucket = resolveBucket(requestedDestinationBucket);
+      assertS3PrefixAccess(s3AccessPolicy, sourceBucket, sourcePrefix, "read");
+      assertS3PrefixAccess(s3AccessPolicy, destinationBucket, destinationPrefix, "read");
+
+      const [sourceListing, destinationListing] = await Promise.all([
+        listS3ObjectsWithMetaCapped(sourceBucket, sourcePrefix, pageSize, maxObjects),
+        listS3ObjectsWithMetaCapped(destinationBucket, destinationPrefix, pageSize, maxObjects),
+      ]);
+
+      const visible = (bucket: string, items: typeof sourceListing.items) =>
+        filterReadableKeys(
+          s3AccessPolicy,
+          bucket,
+          items.filter((item) => !isReservedKey(item.key))
+        );
+      const source = visible(sourceBucket, sourceListing.items);
+      const destination = visible(destinationBucket, destinationListing.items);
+
+      const diff = diffListings(
+        source.allowed,
+        sourcePrefix,
+        destination.allowed,
+        destinationPrefix,
+        maxSample,
+        maxKeysToCopy
+      );
+
+      const listingTruncated = sourceListing.truncated || destinationListing.truncated;
+
+      return {
+        sourceBucket,
+        sourcePrefix,
+        destinationBucket,
+        destinationPrefix,
+
+        sourceCount: source.allowed.length,
+        destinationCount: destination.allowed.length,
+        sourceTruncated: sourceListing.truncated,
+        destinationTruncated: destinationListing.truncated,
+        hiddenByPolicy: source.hidden + destination.hidden,
+
+        identicalCount: diff.identicalCount,
+        identicalBytes: diff.identicalBytes,
+        onlyInSource: diff.onlyInSource,
+        onlyInDestination: diff.onlyInDestination,
+        sizeMismatch: diff.sizeMismatch,
+        etagMismatch: diff.etagMismatch,
+
+        copyPlan: listingTruncated
+          ? undefined
+          : {
+              sourceBucket,
+              sourcePrefix,
+              destinationBucket,
+              destinationPrefix,
+              relativeKeys: diff.keysToCopy,
+              // Mismatched keys already exist at the destination, so copying them replaces them
+              overwrite: diff.sizeMismatch.count + diff.etagMismatch.count > 0,
+              dryRun: true,
+            },
+        copyPlanTruncated: diff.keysToCopyTruncated,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Finds older files in an allowed S3 bucket using LastModified, with optional bucket, prefix, age, and size filters.",
+    inputSchema: findOldFilesInputSchema,
+    outputSchema: findOldFilesOutputSchema,
+  })
+  async findOldFiles(
+    args: z.infer<typeof findOldFilesInputSchema>
+  ): Promise<z.infer<typeof findOldFilesOutputSchema>> {
+    const { bucket: requestedBucket, prefix, olderThanDays, minSizeBytes, maxResults } = args;
+
+    // Keep these caps so results stay fast and readable
+    const pageSize = 250;
+    const maxTotalObjects = 5000;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3PrefixAccess(s3AccessPolicy, bucket, prefix, "read");
+      const result = await findOldObjects(
+        bucket,
+        prefix,
+        olderThanDays,
+        minSizeBytes,
+        pageSize,
+        maxTotalObjects
+      );
+
+      const { allowed, hidden } = filterReadableKeys(s3AccessPolicy, bucket, result.objects);
+      const objects = allowed.slice(0, maxResults);
+      const totalBytes = objects.reduce((sum, item) => sum + item.size, 0);
+
+      return {
+        bucket,
+        prefix,
+        olderThanDays,
+        scanned: result.scanned,
+        truncated: result.truncated,
+        hiddenByPolicy: hidden,
+        resultCount: objects.length,
+        totalBytes,
+        objects,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Searches the contents of text files under a prefix in an allowed S3 bucket (like grep). Matches a literal string or a regex and returns key, line number and surrounding lines. gzip files are searched too, and zstd files on Node 22.15 or newer. Binary files are skipped, and only the first 64 KB of a very long line is matched. Scans are capped by objects, bytes and matches; check truncated.",
+    inputSchema: searchFilesInputSchema,
+    outputSchema: searchFilesOutputSchema,
+  })
+  async searchFiles(
+    args: z.infer<typeof searchFilesInputSchema>
+  ): Promise<z.infer<typeof searchFilesOutputSchema>> {
+    const {
+      bucket: requestedBucket,
+      prefix,
+      pattern,
+      isRegex,
+      ignoreCase,
+      contextLines,
+      maxMatches,
+      maxObjects,
+      maxBytesScanned,
+    } = args;
+
+    // Keep S3 fan-out modest so a search does not starve other tool calls
+    const pageSize = 250;
+    const concurrency = 4;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3PrefixAccess(s3AccessPolicy, bucket, prefix, "read");
+
+      const listing = await listS3ObjectsWithMetaCapped(bucket, prefix, pageSize, maxObjects);
+      const { allowed, hidden } = filterReadableKeys(
+        s3AccessPolicy,
+        bucket,
+        listing.items.filter((item) => item.size > 0 && !isReservedKey(item.key))
+      );
+
+      const result = await searchObjectContents(bucket, allowed, {
+        pattern,
+        isRegex,
+        ignoreCase,
+        contextLines,
+        maxMatches,
+        maxBytesScanned,
+        concurrency,
+      });
+
+      const stopReason = result.stopReason ?? (listing.truncated ? "maxObjects" : undefined);
+
+      return {
+        bucket,
+        prefix,
+        pattern,
+        listed: listing.items.length,
+        scanned: result.objectsScanned,
+        bytesScanned: result.bytesScanned,
+        truncated: result.truncated || listing.truncated,
+        stopReason,
+        hiddenByPolicy: hidden,
+        matchCount: result.matches.length,
+        matches: result.matches,
+        skipped: result.skipped.slice(0, 50),
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Parses a CSV, TSV, JSON array or NDJSON file in an allowed S3 bucket (gzip included, and zstd on Node 22.15 or newer) and returns its inferred column schema with a table of rows. With no query it returns a row sample. Optional where filters (ANDed), select, groupBy, aggregates (count, countDistinct, sum, avg, min, max) and orderBy run over the whole file up to maxRowsScanned, so counts and totals are exact unless truncated is true.",
+    inputSchema: queryDataFileInputSchema,
+    outputSchema: queryDataFileOutputSchema,
+  })
+  async queryDataFile(
+    args: z.infer<typeof queryDataFileInputSchema>
+  ): Promise<z.infer<typeof queryDataFileOutputSchema>> {
+    const { bucket: requestedBucket, key, ...query } = args;
+
+    for (const aggregate of query.aggregates) {
+      if (aggregate.fn !== "count" && !aggregate.column) {
+        throw new Error(`Aggregate ${aggregate.fn} needs a column.`);
+      }
+    }
+    if (query.select && (query.groupBy.length > 0 || query.aggregates.length > 0)) {
+      throw new Error(
+        "select cannot be combined with groupBy or aggregates; grouped results return the group and aggregate columns."
+      );
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3Access(s3AccessPolicy, bucket, key, "read");
+      const result = await queryTabularObject(bucket, key, query);
+      return { bucket, key, ...result };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Summarizes where storage is going in an allowed S3 bucket as a folder tree. Each node (nodes[0] is the requested prefix) has total bytes, object count, a storage class breakdown and an age histogram. Use it for questions like which prefixes are biggest or grew recently (see the 0-7d and 7-30d age buckets). At most maxNodes folders are returned, smallest and deepest dropped first; check nodesTruncated.",
+    inputSchema: analyzeStorageInputSchema,
+    outputSchema: analyzeStorageOutputSchema,
+  })
+  async analyzeStorageByPrefix(
+    args: z.infer<typeof analyzeStorageInputSchema>
+  ): Promise<z.infer<typeof analyzeStorageOutputSchema>> {
+    const { bucket: requestedBucket, prefix, depth, maxChildrenPerNode, maxNodes, maxObjects } =
+      args;
+
+    const pageSize = 1000;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3PrefixAccess(s3AccessPolicy, bucket, prefix, "read");
+
+      const listing = await listS3ObjectsWithMetaCapped(bucket, prefix, pageSize, maxObjects);
+      const { allowed, hidden } = filterReadableKeys(s3AccessPolicy, bucket, listing.items);
+      const tree = buildPrefixTree(allowed, prefix, depth, maxChildrenPerNode, maxNodes);
+
+      return {
+        bucket,
+        prefix,
+        depth,
+        scanned: listing.items.length,
+        truncated: listing.truncated,
+        hiddenByPolicy: hidden,
+        nodeCount: tree.nodes.length,
+        nodesTruncated: tree.truncated,
+        nodes: tree.nodes,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Models monthly S3 storage cost for prefixes in an allowed bucket under Standard-IA, Glacier Instant Retrieval, Glacier Flexible Retrieval and Deep Archive, based on object age, size and current storage class. Returns projected savings per option and ready-to-apply lifecycle rules. Does not change the bucket; use applyLifecycleRules after the user confirms.",
+    inputSchema: recommendStorageInputSchema,
+    outputSchema: recommendStorageOutputSchema,
+  })
+  async recommendStorageClasses(
+    args: z.infer<typeof recommendStorageInputSchema>
+  ): Promise<z.infer<typeof recommendStorageOutputSchema>> {
+    const {
+      bucket: requestedBucket,
+      prefixes,
+      minSizeBytes,
+      transitionDays,
+      maxObjectsPerPrefix,
+    } = args;
+
+    const pageSize = 1000;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      const results: z.infer<typeof prefixRecommendationSchema>[] = [];
+
+      for (const prefix of prefixes) {
+        assertS3PrefixAccess(s3AccessPolicy, bucket, prefix, "read");
+        const listing = await listS3ObjectsWithMetaCapped(
+          bucket,
+          prefix,
+          pageSize,
+          maxObjectsPerPrefix
+        );
+        const { allowed } = filterReadableKeys(s3AccessPolicy, bucket, listing.items);
+        const recommendation = recommendForPrefix(
+          allowed,
+          prefix,
+          s3Pricing,
+          minSizeBytes,
+          transitionDays
+        );
+        results.push({
+          ...recommendation,
+          scanned: listing.items.length,
+          truncated: listing.truncated,
+        });
+      }
+
+      const rules = results
+        .map((result) => result.rule)
+        .filter((rule): rule is LifecycleRuleSpec => rule !== undefined);
+
+      const totalMonthlySavings = results.reduce((total, result) => {
+        const chosen = result.options.find((option) => option.storageClass === result.recommended);
+        return total + (chosen?.monthlySavings ?? 0);
+      }, 0);
+
+      return {
+        bucket,
+        pricingVersion: s3Pricing.version,
+        pricingRegion: s3Pricing.region,
+        currency: s3Pricing.currency,
+        prefixes: results,
+        totalMonthlySavings: Math.round(totalMonthlySavings * 10000) / 10000,
+        rules,
+        lifecycleConfigurationJson: JSON.stringify(
+          { Rules: rules.map(toAwsLifecycleRule) },
+          null,
+          2
+        ),
+        notes: [
+          "Savings cover storage only. Retrieval fees and restore times for Glacier classes are not modeled.",
+          "Objects deleted or moved before the class minimum storage duration are billed for the remainder.",
+          `Prices are from pricing table ${s3Pricing.version} for ${s3Pricing.region}.`,
+          ...(prefixes.some(overlapsReservedPrefix)
+            ? [
+                `No rule is proposed for the bucket root, since it would also archive the agent's files under ${agentReservedPrefix}. Recommend per-prefix rules instead.`,
+              ]
+            : []),
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Applies lifecycle transition rules (from recommendStorageClasses) to an allowed S3 bucket. Existing rules with other IDs are kept. Rule IDs must start with \"daemo-\", the prefix must be writable in full under the S3 access policy, and it cannot be the bucket root or reach into the agent's reserved folder. Only call with confirm=true after the user explicitly approves the exact rules.",
+    inputSchema: applyLifecycleInputSchema,
+    outputSchema: applyLifecycleOutputSchema,
+  })
+  async applyLifecycleRules(
+    args: z.infer<typeof applyLifecycleInputSchema>
+  ): Promise<z.infer<typeof applyLifecycleOutputSchema>> {
+    const { bucket: requestedBucket, rules, confirm } = args;
+
+    if (!confirm) {
+      throw new Error(
+        "Lifecycle rules were not applied. Show the user the rules and call again with confirm=true once they approve."
+      );
+    }
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      for (const rule of rules) {
+        if (overlapsReservedPrefix(rule.prefix)) {
+          throw new Error(
+            `Lifecycle rule prefix "${rule.prefix}" would also move the agent's own files under "${agentReservedPrefix}". Use a more specific prefix.`
+          );
+        }
+        // The rule transitions every object under its prefix
+        assertS3WholePrefixAccess(s3AccessPolicy, bucket, rule.prefix, "write");
+      }
+
+      const existing = await getBucketLifecycleRules(bucket);
+      const merged = mergeLifecycleRules(existing, rules);
+      await putBucketLifecycleRules(bucket, merged.rules);
+
+      return {
+        bucket,
+        added: merged.added,
+        replaced: merged.replaced,
+        totalRules: merged.rules.length,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Audits the security setup of allowed S3 buckets (all of them by default): Block Public Access, default encryption, versioning and MFA delete, lifecycle rules, bucket policy, ACL grants, access logging and object ownership. Returns the raw settings and findings ranked critical, high, medium, low or info, such as a policy that allows Principal \"*\". Read-only.",
+    inputSchema: auditBucketSecurityInputSchema,
+    outputSchema: auditBucketSecurityOutputSchema,
+  })
+  async auditBucketSecurity(
+    args: z.infer<typeof auditBucketSecurityInputSchema>
+  ): Promise<z.infer<typeof auditBucketSecurityOutputSchema>> {
+    const { buckets: requestedBuckets } = args;
+
+    try {
+      const buckets = requestedBuckets
+        ? [...new Set(requestedBuckets.map((bucket) => resolveBucket(bucket)))]
+        : allowedBuckets;
+      if (buckets.length === 0) throw new Error("MissingAllowedBuckets");
+
+      const findingCounts: Record<string, number> = Object.fromEntries(
+        severityOrder.map((severity) => [severity, 0])
+      );
+
+      // One bucket at a time; each audit already fans out over its settings
+      const results: Array<z.infer<typeof bucketAuditSchema>> = [];
+      for (const bucket of buckets) {
+        try {
+          const config = await getBucketSecurityConfig(bucket);
+          const findings = evaluateBucketPosture(config);
+          for (const finding of findings) findingCounts[finding.severity]++;
+
+          const { bucket: _bucket, region, unavailable, lifecycleRules, ...settings } = config;
+          results.push({
+            bucket,
+            region,
+            highestSeverity: findings[0]?.severity,
+            findings,
+            settings: {
+              ...settings,
+              lifecycleRules: lifecycleRules?.map((rule) => ({
+                id: rule.ID,
+                status: rule.Status,
+              })),
+            },
+          });
+        } catch (error: any) {
+          results.push({ bucket, findings: [], error: formatAwsErrorMessage(error) });
+        }
+      }
+
+      return { bucketCount: results.length, findingCounts, buckets: results };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Step 1 of deleting old S3 files. Finds old files like findOldFiles (optionally narrowed to specific keys) and saves a deletion plan with an expiring confirmation token. Nothing is deleted. Show the user the key count and total bytes and ask them to confirm before calling executeDeletionPlan.",
+    inputSchema: planDeletionInputSchema,
+    outputSchema: planDeletionOutputSchema,
+  })
+  async planOldFileDeletion(
+    args: z.infer<typeof planDeletionInputSchema>
+  ): Promise<z.infer<typeof planDeletionOutputSchema>> {
+    const {
+      bucket: requestedBucket,
+      prefix,
+      olderThanDays,
+      minSizeBytes,
+      keys,
+      maxObjects,
+      expiresInMinutes,
+    } = args;
+
+    // Same scan caps as findOldFiles
+    const pageSize = 250;
+    const maxTotalObjects = 5000;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      assertS3PrefixAccess(s3AccessPolicy, bucket, prefix, "write");
+
+      const result = await findOldObjects(
+        bucket,
+        prefix,
+        olderThanDays,
+        minSizeBytes,
+        pageSize,
+        maxTotalObjects
+      );
+
+      let candidates = result.objects.filter((item) => !isReservedKey(item.key));
+      let requestedKeysNotEligible: string[] = [];
+
+      if (keys) {
+        const requested = new Set(keys);
+        const eligible = new Set(candidates.map((item) => item.key));
+        requestedKeysNotEligible = [...requested].filter((key) => !eligible.has(key));
+        candidates = candidates.filter((item) => requested.has(item.key));
+      }
+
+      const writable = candidates.filter(
+        (item) => checkS3Access(s3AccessPolicy, bucket, item.key, "write").allowed
+      );
+      const objects = writable.slice(0, maxObjects);
+
+      if (objects.length === 0) {
+        throw new Error("No files matched the deletion criteria, so no plan was created.");
+      }
+
+      const { plan, manifestKey, confirmationToken } = await createDeletionPlan(
+        bucket,
+        prefix,
+        olderThanDays,
+        objects,
+        expiresInMinutes * 60
+      );
+
+      return {
+        bucket,
+        prefix,
+        planId: plan.planId,
+        manifestKey,
+        confirmationToken,
+        expiresAt: plan.expiresAt,
+        scanned: result.scanned,
+        truncated: result.truncated,
+        skippedByPolicy: candidates.length - writable.length,
+        requestedKeysNotEligible,
+        keyCount: objects.length,
+        totalBytes: plan.totalBytes,
+        sample: objects.slice(0, 25),
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Step 2 of deleting old S3 files. Deletes the files in a deletion plan using its confirmation token. Only call this after the user explicitly confirms. Optionally pass keys to delete a subset; keys not in the plan are refused. Tokens are single-use.",
+    inputSchema: executeDeletionInputSchema,
+    outputSchema: executeDeletionOutputSchema,
+  })
+  async executeDeletionPlan(
+    args: z.infer<typeof executeDeletionInputSchema>
+  ): Promise<z.infer<typeof executeDeletionOutputSchema>> {
+    const { bucket: requestedBucket, confirmationToken, keys } = args;
+
+    try {
+      const bucket = resolveBucket(requestedBucket);
+      const plan = await loadDeletionPlanForToken(bucket, confirmationToken);
+
+      const sizeByKey = new Map(plan.objects.map((item) => [item.key, item.size]));
+      const requestedKeys = keys ? [...new Set(keys)] : [...sizeByKey.keys()];
+
+      const refused: DeletionOutcome[] = [];
+      const toDelete: string[] = [];
+
+      for (const key of requestedKeys) {
+        if (!sizeByKey.has(key)) {
+          refused.push({
+            key,
+            status: "refused",
+            code: "NotInPlan",
+            message: "Key is not in the deletion plan.",
+          });
+          continue;
+        }
+        const decision = checkS3Access(s3AccessPolicy, bucket, key, "write");
+        if (!decision.allowed) {
+          refused.push({
+            key,
+            status: "refused",
+            code: "S3AccessDenied",
+            message: `Blocked by ${decision.rule}.`,
+          });
+          continue;
+        }
+        toDelete.push(key);
+      }
+
+      const outcomes = await executeDeletionPlan(plan, toDelete);
+      const results = [...outcomes, ...refused];
+      const deleted = outcomes.filter((item) => item.status === "deleted");
+
+      return {
+        bucket,
+        planId: plan.planId,
+        deletedCount: deleted.length,
+        failedCount: outcomes.length - deleted.length,
+        refusedCount: refused.length,
+        deletedBytes: deleted.reduce((sum, item) => sum + (sizeByKey.get(item.key) ?? 0), 0),
+        results,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Copies or moves (move=true) one key or a whole prefix server-side, within one allowed bucket or between two. Use sourceKey with destinationKey (or destinationPrefix) for one object, or sourcePrefix with destinationPrefix for a folder; a rename is a move within the same bucket. Keeps metadata, tags and storage class, and uses multipart copy above 5 GB. dryRun=true only lists the source-to-destination mapping. Sources the access policy does not allow reading are left out and only counted in hiddenByPolicy. Existing destinations are left alone unless overwrite=true. Work stops after timeBudgetSeconds; call again with the returned jobId and the same destinationBucket to resume; a resumed job skips finished objects and retries failed ones.",
+    inputSchema: copyObjectsInputSchema,
+    outputSchema: copyObjectsOutputSchema,
+  })
+  async copyObjects(
+    args: z.infer<typeof copyObjectsInputSchema>
+  ): Promise<z.infer<typeof copyObjectsOutputSchema>> {
+    const {
+      sourceBucket: requestedSourceBucket,
+      sourceKey,
+      sourcePrefix,
+      destinationBucket: requestedDestinationBucket,
+      destinationKey,
+      destinationPrefix,
+      relativeKeys,
+      move,
+      overwrite,
+      dryRun,
+      jobId,
+      maxObjects,
+      timeBudgetSeconds,
+    } = args;
+
+    const maxResultsShown = 200;
+
+    if (!jobId) {
+      if ((sourceKey === undefined) === (sourcePrefix === undefined)) {
+        throw new Error("Pass exactly one of sourceKey or sourcePrefix, or a jobId to resume.");
+      }
+      if (
+        sourceKey !== undefined &&
+        destinationKey === undefined &&
+        destinationPrefix === undefined
+      ) {
+        throw new Error("Copying one key needs destinationKey or destinationPrefix.");
+      }
+      if (sourcePrefix !== undefined && destinationPrefix === undefined) {
+        throw new Error("Copying a prefix needs destinationPrefix.");
+      }
+      if (relativeKeys !== undefined && sourcePrefix === undefined) {
+        throw new Error("relativeKeys only applies when copying a sourcePrefix.");
+      }
+    }
+
+    try {
+      const destinationBucket = resolveBucket(requestedDestinationBucket);
+      let job: CopyJob;
+      let listingTruncated = false;
+      let hiddenAtListing = 0;
+
+      if (jobId) {
+        job = await loadCopyJob(destinationBucket, jobId);
+        resolveBucket(job.sourceBucket);
+      } else {
+        const sourceBucket = resolveBucket(requestedSourceBucket);
+
+        let sources: Array<{ key: string; size: number; etag?: string; storageClass?: string }>;
+        if (sourceKey !== undefined) {
+          // Checked before the HEAD so a denied key's size and existence are not revealed
+          assertS3Access(s3AccessPolicy, sourceBucket, sourceKey, "read");
+          const head = await headS3Object(sourceBucket, sourceKey);
+          sources = [{ key: sourceKey, ...head }];
+        } else {
+          assertS3PrefixAccess(s3AccessPolicy, sourceBucket, sourcePrefix ?? "", "read");
+          const listing = await listS3ObjectsWithMetaCapped(
+            sourceBucket,
+            sourcePrefix ?? "",
+            1000,
+            maxObjects
+          );
+          listingTruncated = listing.truncated;
+          const { allowed, hidden } = filterReadableKeys(
+            s3AccessPolicy,
+            sourceBucket,
+            listing.items.filter((item) => !isReservedKey(item.key))
+          );
+          sources = allowed;
+          hiddenAtListing = hidden;
+
+          // A key list from diffPrefixes narrows the prefix copy to the keys that differ
+          if (relativeKeys) {
+            const wanted = new Set(relativeKeys);
+            sources = sources.filter((item) =>
+              wanted.has(item.key.slice((sourcePrefix ?? "").length))
+            );
+          }
+        }
+
+        const items: CopyJobItem[] = sources.map((source) => ({
+          sourceKey: source.key,
+          destinationKey:
+            destinationKey ??
+            (sourcePrefix !== undefined
+              ? mapPrefixKey(source.key, sourcePrefix, destinationPrefix ?? "")
+              : `${destinationPrefix ?? ""}${source.key.split("/").pop()}`),
+          size: source.size,
+          etag: source.etag,
+          storageClass: source.storageClass,
+          status: "pending",
+        }));
+
+        if (sourceBucket === destinationBucket) {
+          if (items.some((item) => item.sourceKey === item.destinationKey)) {
+            throw new Error("Source and destination are the same object.");
+          }
+          const destination = destinationPrefix ?? "";
+          if (
+            sourcePrefix !== undefined &&
+            (destination.startsWith(sourcePrefix) || sourcePrefix.startsWith(destination))
+          ) {
+            throw new Error(
+              "Source and destination prefixes overlap in the same bucket. Pick a destination outside the source prefix."
+            );
+          }
+        }
+
+        job = newCopyJob(sourceBucket, destinationBucket, move, overwrite, items);
+      }
+
+      // Policy is checked on every run, so a resumed job follows the current rules
+      for (const item of job.items) {
+        if (item.status !== "pending" && item.status !== "failed") continue;
+
+        const checks: Array<[string, string, "read" | "write"]> = [
+          [job.sourceBucket, item.sourceKey, "read"],
+          [job.destinationBucket, item.destinationKey, "write"],
+        ];
+        if (job.move) checks.push([job.sourceBucket, item.sourceKey, "write"]);
+
+        if (isReservedKey(item.sourceKey) || isReservedKey(item.destinationKey)) {
+          item.status = "refused";
+          item.message = `Keys under "${agentReservedPrefix}" are reserved for the agent.`;
+          continue;
+        }
+        for (const [bucket, key, operation] of checks) {
+          const decision = checkS3Access(s3AccessPolicy, bucket, key, operation);
+          if (!decision.allowed) {
+            item.status = "refused";
+            item.code = "S3AccessDenied";
+            item.message = `${operation} of "${key}" in "${bucket}" is blocked by ${decision.rule}.`;
+            break;
+          }
+        }
+      }
+
+      let manifestKey: string | undefined;
+      let completed = false;
+      if (!dryRun) {
+        manifestKey = await saveCopyJob(job);
+        completed = await runCopyJob(job, Date.now() + timeBudgetSeconds * 1000);
+      }
+
+      // A resumed job may hold sources the current policy no longer lets us read
+      const shown = job.items.filter(
+        (item) => checkS3Access(s3AccessPolicy, job.sourceBucket, item.sourceKey, "read").allowed
+      );
+      const count = (...statuses: string[]) =>
+        shown.filter((item) => statuses.includes(item.status)).length;
+
+      // Problems first so they survive the result cap
+      const rank = (status: string) =>
+        status === "failed" ? 0 : status === "refused" ? 1 : status === "exists" ? 2 : 3;
+      const results = [...shown]
+        .sort((a, b) => rank(a.status) - rank(b.status))
+        .slice(0, maxResultsShown)
+        .map(({ etag, storageClass, destinationEtag, destinationVersionId, ...item }) => item);
+
+      return {
+        sourceBucket: job.sourceBucket,
+        destinationBucket: job.destinationBucket,
+        move: job.move,
+        dryRun,
+        jobId: dryRun ? undefined : job.jobId,
+        manifestKey,
+        completed,
+        listingTruncated,
+        hiddenByPolicy: hiddenAtListing + job.items.length - shown.length,
+
+        totalObjects: shown.length,
+        totalBytes: shown.reduce((sum, item) => sum + item.size, 0),
+        doneCount: job.move ? count("moved") : count("copied", "already-present"),
+        pendingCount: count("pending") + (job.move ? count("copied", "already-present") : 0),
+        existsCount: count("exists"),
+        failedCount: count("failed"),
+        refusedCount: count("refused"),
+
+        results,
+        resultsTruncated: shown.length > maxResultsShown,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      "Lists EC2 instances (basic info only). Use this when the user asks what EC2s exist or what is running. Filters run in EC2 and combine: tags (key to accepted values), instanceTypes, availabilityZones, vpcIds, subnetIds and nameGlob (Name tag with * and ? wildcards). This does NOT perform idle detection; use getEc2Instance for one instance's full details. Set includeCost to add each instance's on-demand hourly and monthly compute cost from the offline price catalog, plus totals. Pass regions (a list, or \"all-enabled\" for every enabled region) to sweep several regions at once; every record carries its region and regions that fail are listed in regionErrors instead of failing the call.",
+    inputSchema: listEc2InstancesInputSchema,
+    outputSchema: listEc2InstancesOutputSchema,
+  })
+  async listEc2Instances(
+    args: z.infer<typeof listEc2InstancesInputSchema>
+  ): Promise<z.infer<typeof listEc2InstancesOutputSchema>> {
+    const { regions: regionSelection, maxInstances, states, includeCost, ...filters } = args;
+
+    try {
+      const regions = await resolveRegions(regionSelection);
+      const sweep = await mapRegions(regions, (region) =>
+        listEc2InstancesSimple(maxInstances + 1, states, filters, region)
+      );
+      const { items: instances, truncated } = capRegionResults(
+        mergeRegionResults(sweep),
+        maxInstances
+      );
+      const regionErrors = describeRegionFailures(sweep.failures);
+      if (!includeCost) {
+        return { count: instances.length, states, regions, regionErrors, truncated, instances };
+      }
+
+      const priced = instances.map((instance) => ({
+        instance,
+        cost: ec2InstanceCost(priceCatalog, instance.region, instance),
+      }));
+      return {
+        count: instances.length,
+        states,
+        regions,
+        regionErrors,
+        truncated,
+        instances: priced.map(({ instance, cost }) => ({ ...instance, ...cost })),
+        costSummary: summarizeCosts(
+          priceCatalog,
+          regions,
+          priced.map(({ instance, cost }) => ({ cost, type: instance.instanceType }))
+        ),
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
   }
 
-  if (errorCode === "ENOTFOUND") {
-    return "RDS host not found. Check RDS_HOST and the instance endpoint.";
-  }
+  @DaemoFunction({
+    description:
+      "Gets full details for one EC2 instance by ID: private and public IPs and DNS names, VPC and subnet, network interfaces, attached EBS volumes (size, type, encryption), security groups, IAM instance profile, IMDSv2 enforcement, platform, AMI ID, key pair, tags, and why it last changed state (stateTransitionReason and stateReason). Use this to answer why an instance stopped or what it is attached to. Pass region when the instance is outside the configured region.",
+    inputSchema: getEc2InstanceInputSchema,
+    outputSchema: getEc2InstanceOutputSchema,
+  })
+  async getEc2Instance(
+    args: z.infer<typeof getEc2InstanceInputSchema>
+  ): Promise<z.infer<typeof getEc2InstanceOutputSchema>> {
+    const { instanceId } = args;
 
-  if (errorCode === "ECONNREFUSED") {
-    return "Connection refused. Check the RDS security group inbound rule for port 3306.";
+    try {
+      const region = args.region ?? defaultRegion();
+      const details = await getEc2InstanceDetails(instanceId, region);
+      return { ...details, region, tags: details.tags ?? {} };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
   }
 
-  if (errorCode === "ETIMEDOUT") {
-    return "Connection timed out. The RDS instance may not be reachable from this network/VPC.";
-  }
+  @DaemoFunction({
+    description:
+      "Detects likely-idle running EC2 instances over a lookback window using average, p95 and max CPU, network, EBS I/O and (for T-family instances) CPU credit usage. Returns stop candidates with evidence. Thresholds come from named idle policies: pass policy to use one for every instance, otherwise each instance gets the policy its tags select (e.g. Environment=dev). overrides adjusts individual thresholds for this call only. Set includeCost to add on-demand compute cost per instance, totals, and the monthly savings if every idle candidate were stopped. Pass regions (a list, or \"all-enabled\" for every enabled region) to sweep several regions at once; every record carries its region and regions that fail are listed in regionErrors instead of failing the call.",
+    inputSchema: detectIdleEc2InputSchema,
+    outputSchema: detectIdleEc2OutputSchema,
+  })
+  async detectIdleEc2(
+    args: z.infer<typeof detectIdleEc2InputSchema>
+  ): Promise<z.infer<typeof detectIdleEc2OutputSchema>> {
+    const { regions: regionSelection, lookbackDays, maxInstances, policy, overrides, includeCost } =
+      args;
 
-  if (errorCode === "EHOSTUNREACH") {
-    return "Host unreachable. The RDS instance may be in a private VPC.";
-  }
+    try {
+      // Surface an unknown policy name before any AWS calls
+      if (policy) resolveIdlePolicy(ec2IdlePolicies, {}, policy, overrides);
 
-  if (errorCode === "OnlyReadQueriesAllowed") {
-    return "Only read-only SQL queries are allowed (SELECT/SHOW/DESCRIBE).";
-  }
+      const regions = await resolveRegions(regionSelection);
+      const listing = await mapRegions(regions, (region) =>
+        listRunningInstancesCapped(maxInstances + 1, region)
+      );
+      const { items: instances, truncated } = capRegionResults(
+        mergeRegionResults(listing),
+        maxInstances
+      );
 
-  if (errorCode === "Missing RDS_HOST") {
-    return "Missing RDS_HOST environment variable.";
-  }
+      // Only regions that still hold instances after the cap need CloudWatch calls
+      const keptRegions = [...new Set(instances.map((instance) => instance.region))];
+      const sweep = await mapRegions(keptRegions, (region): Promise<idleCandidate[]> =>
+        detectIdleInstances(
+          instances.filter((instance) => instance.region === region),
+          lookbackDays,
+          (instance) => resolveIdlePolicy(ec2IdlePolicies, instance.tags ?? {}, policy, overrides),
+          region
+        )
+      );
+      const candidates = mergeRegionResults(sweep);
+      const regionErrors = describeRegionFailures([...listing.failures, ...sweep.failures]);
 
-  if (errorCode === "Missing RDS_USER") {
-    return "Missing RDS_USER environment variable.";
-  }
+      // Sort idle first, then confidence, then CPU, then network
+      candidates.sort((a, b) => {
+        if (a.idle !== b.idle) return a.idle ? -1 : 1;
 
-  if (errorCode === "Missing RDS_PASSWORD") {
-    return "Missing RDS_PASSWORD environment variable.";
-  }
+        const confidenceRank = (value: string) =>
+          value === "HIGH" ? 0 : value === "MEDIUM" ? 1 : 2;
 
-  if (errorCode === "MissingAllowedBuckets") {
-    return "Missing ALLOWED_BUCKETS environment variable. Set it to a comma-separated list of bucket names.";
-  }
+        const rankDiff = confidenceRank(a.confidence) - confidenceRank(b.confidence);
+        if (rankDiff !== 0) return rankDiff;
 
-  if (errorCode === "PermanentRedirect" || httpStatusCode === 301) {
-    return "AWS says this bucket must be accessed using a different regional endpoint. Double-check the bucket region matches AWS_REGION.";
-  }
+        const aCpu = a.cpuAvg ?? Number.POSITIVE_INFINITY;
+        const bCpu = b.cpuAvg ?? Number.POSITIVE_INFINITY;
+        if (aCpu !== bCpu) return aCpu - bCpu;
 
-  if (error?.message && error?.message !== "Error") {
-    return error.message;
-  }
+        const aNet = (a.netInBytesTotal ?? 0) + (a.netOutBytesTotal ?? 0);
+        const bNet = (b.netInBytesTotal ?? 0) + (b.netOutBytesTotal ?? 0);
+        return aNet - bNet;
+      });
 
-  return `AWS error: ${errorCode ?? "UnknownError"}`;
-}
+      if (!includeCost) {
+        return { scanned: candidates.length, regions, regionErrors, truncated, candidates };
+      }
 
-// Daemo tools
+      const priced = candidates.map((candidate) => ({
+        candidate,
+        cost: ec2InstanceCost(priceCatalog, candidate.region, candidate),
+      }));
+      const idlePriced = priced.filter(({ candidate, cost }) => candidate.idle && cost);
+      const idleTotals = summarizeCosts(priceCatalog, regions, idlePriced);
 
-export class AwsFunctions {
-  @DaemoFunction({
-    description:
-      "Lists the S3 buckets this agent is allowed to access (configured via ALLOWED_BUCKETS).",
-    inputSchema: emptyInputSchema,
-    outputSchema: listBucketsOutputSchema,
-  })
-  async listAllowedBuckets(): Promise<z.infer<typeof listBucketsOutputSchema>> {
-    return {
-      count: allowedBuckets.length,
-      buckets: allowedBuckets,
-    };
+      return {
+        scanned: candidates.length,
+        regions,
+        regionErrors,
+        truncated,
+        candidates: priced.map(({ candidate, cost }) => ({ ...candidate, ...cost })),
+        costSummary: summarizeCosts(
+          priceCatalog,
+          regions,
+          priced.map(({ candidate, cost }) => ({ cost, type: candidate.instanceType }))
+        ),
+        idleSavings: {
+          instanceCount: idlePriced.length,
+          hourly: idleTotals.hourlyTotal,
+          monthly: idleTotals.monthlyTotal,
+        },
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
   }
 
   @DaemoFunction({
     description:
-      "Lists file keys in an allowed S3 bucket. Optionally provide bucket, prefix like 'logs/', and a limit.",
-    inputSchema: listFilesInputSchema,
-    outputSchema: listFilesOutputSchema,
+      "Step 1 of stopping, hibernating or terminating idle EC2 instances. Re-checks each instance (running, no exclusion tags, still idle under its named or tag-selected policy; thresholds cannot be overridden here) and runs the EC2 call with DryRun to prove permissions. Pass regions (a list, or \"all-enabled\") when the instances are outside the configured region; each instance is found and acted on in the region that holds it. Nothing is changed. Returns a confirmation token for executeEc2IdleAction, plus the instances refused and why. Show the user the eligible instances and ask them to confirm.",
+    inputSchema: planEc2ActionInputSchema,
+    outputSchema: planEc2ActionOutputSchema,
   })
-  async listFiles(
-    args: z.infer<typeof listFilesInputSchema>
-  ): Promise<z.infer<typeof listFilesOutputSchema>> {
-    const { bucket: requestedBucket, prefix, limit } = args;
+  async planEc2IdleAction(
+    args: z.infer<typeof planEc2ActionInputSchema>
+  ): Promise<z.infer<typeof planEc2ActionOutputSchema>> {
+    const {
+      regions: regionSelection,
+      action,
+      reason,
+      lookbackDays,
+      policy,
+      expiresInMinutes,
+    } = args;
+    const instanceIds = [...new Set(args.instanceIds)];
 
     try {
-      const bucket = resolveBucket(requestedBucket);
-      const keys = await listS3Objects(bucket, prefix, limit);
-      return { bucket, prefix, count: keys.length, keys };
+      if (policy) resolveIdlePolicy(ec2IdlePolicies, {}, policy);
+
+      const regions = await resolveRegions(regionSelection);
+      const { targets, failures } = await locateEc2Instances(instanceIds, regions);
+      const regionErrors = describeRegionFailures(failures);
+
+      const located = new Set(targets.map((target) => target.instanceId));
+      const missing: Ec2ActionOutcome[] = instanceIds
+        .filter((instanceId) => !located.has(instanceId))
+        .map((instanceId) => ({
+          instanceId,
+          status: "refused",
+          code: "NotFound",
+          message: "No such instance in the searched regions. regionErrors lists any not checked.",
+        }));
+
+      const checked = await checkEc2ActionEligibility(
+        action,
+        targets,
+        lookbackDays,
+        (instance) => resolveIdlePolicy(ec2IdlePolicies, instance.tags ?? {}, policy)
+      );
+      const { eligible } = checked;
+      const refused = [...missing, ...checked.refused];
+
+      const summary = eligible.map((candidate) => ({
+        instanceId: candidate.instanceId,
+        region: candidate.region,
+        name: candidate.name,
+        instanceType: candidate.instanceType,
+        confidence: candidate.confidence,
+        policy: candidate.policy,
+        reason: candidate.reason,
+      }));
+
+      // No token when nothing qualified, so there is nothing to confirm
+      if (eligible.length === 0) {
+        return { action, eligible: summary, refused, regions, regionErrors };
+      }
+
+      const { plan, confirmationToken } = createEc2ActionPlan(
+        action,
+        reason,
+        eligible.map(({ instanceId, region }) => ({ instanceId, region })),
+        lookbackDays,
+        policy,
+        expiresInMinutes * 60
+      );
+
+      return {
+        action,
+        planId: plan.planId,
+        confirmationToken,
+        expiresAt: plan.expiresAt,
+        eligible: summary,
+        refused,
+        regions,
+        regionErrors,
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -405,18 +3317,52 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Reads a text file from an allowed S3 bucket by key.",
-    inputSchema: readTextInputSchema,
-    outputSchema: readTextOutputSchema,
+      "Step 2 of acting on idle EC2 instances. Only call this after the user explicitly confirms the plan from planEc2IdleAction. Terminate also needs terminationPhrase: the user types the word terminate followed by every instance ID in the plan (e.g. \"terminate i-0abc i-0def\"). Never build it for them; ask for it. Each instance is re-checked, tagged with <Verb>By=daemo-agent, <Verb>Reason and <Verb>At, then stopped, hibernated or terminated. Tokens are single-use.",
+    inputSchema: executeEc2ActionInputSchema,
+    outputSchema: executeEc2ActionOutputSchema,
   })
-  async readTextFile(
-    args: z.infer<typeof readTextInputSchema>
-  ): Promise<z.infer<typeof readTextOutputSchema>> {
-    const { bucket: requestedBucket, key } = args;
+  async executeEc2IdleAction(
+    args: z.infer<typeof executeEc2ActionInputSchema>
+  ): Promise<z.infer<typeof executeEc2ActionOutputSchema>> {
+    const { confirmationToken, terminationPhrase } = args;
 
     try {
-      const bucket = resolveBucket(requestedBucket);
-      return await getTextObject(bucket, key);
+      const plan = loadEc2ActionPlanForToken(confirmationToken);
+
+      if (plan.action === "terminate" && !matchesTerminationPhrase(plan, terminationPhrase)) {
+        const error = new Error(
+          "Termination needs a terminationPhrase typed by the user: the word terminate followed by every instance ID in the plan. Nothing was changed."
+        );
+        error.name = "TerminationNotConfirmed";
+        throw error;
+      }
+
+      markEc2ActionPlanExecuted(plan);
+
+      // Things may have changed since the plan, so every check runs again
+      const { eligible, refused } = await checkEc2ActionEligibility(
+        plan.action,
+        plan.targets,
+        plan.lookbackDays,
+        (instance) => resolveIdlePolicy(ec2IdlePolicies, instance.tags ?? {}, plan.policy)
+      );
+
+      const outcomes: Ec2ActionOutcome[] = [];
+      for (const candidate of eligible) {
+        outcomes.push(
+          await applyEc2Action(plan, { instanceId: candidate.instanceId, region: candidate.region })
+        );
+      }
+
+      const failedCount = outcomes.filter((item) => item.status === "failed").length;
+      return {
+        planId: plan.planId,
+        action: plan.action,
+        doneCount: outcomes.length - failedCount,
+        failedCount,
+        refusedCount: refused.length,
+        results: [...outcomes, ...refused],
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -424,19 +3370,91 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Writes a text file to an allowed S3 bucket at the given key.",
-    inputSchema: writeTextInputSchema,
-    outputSchema: writeTextOutputSchema,
+      "Recommends smaller or cheaper EC2 instance types for running instances from their utilization history: p95 and max CPU from CloudWatch, plus p95 memory when the CloudWatch agent publishes it (CWAgent). Sizes to keep p95 CPU under 70% and memory under 80%, within the same architecture, using the offline price catalog (Linux on-demand in each instance's region). Each result has projected headroom, monthly savings and a confidence level. Pass regions (a list, or \"all-enabled\" for every enabled region) to sweep several regions at once; every record carries its region and regions that fail are listed in regionErrors instead of failing the call. Read-only.",
+    inputSchema: recommendRightsizingInputSchema,
+    outputSchema: recommendRightsizingOutputSchema,
   })
-  async writeTextFile(
-    args: z.infer<typeof writeTextInputSchema>
-  ): Promise<z.infer<typeof writeTextOutputSchema>> {
-    const { bucket: requestedBucket, key, content, contentType } = args;
+  async recommendEc2Rightsizing(
+    args: z.infer<typeof recommendRightsizingInputSchema>
+  ): Promise<z.infer<typeof recommendRightsizingOutputSchema>> {
+    const { regions: regionSelection, instanceIds, maxInstances, lookbackDays } = args;
+
+    // Hourly datapoints; at least half the window must be covered
+    const periodSeconds = 3600;
+    const minDataPoints = lookbackDays * 12;
 
     try {
-      const bucket = resolveBucket(requestedBucket);
-      const etag = await putTextObject(bucket, key, content, contentType);
-      return { bucket, key, etag };
+      const regions = await resolveRegions(regionSelection);
+      const listing = await mapRegions(regions, async (region): Promise<ec2InstanceSummary[]> =>
+        // Unknown IDs are skipped, so each region only reports the instances it holds
+        instanceIds
+          ? (await describeEc2Instances([...new Set(instanceIds)], region)).filter(
+              (instance) => instance.state === "running"
+            )
+          : await listRunningInstancesCapped(maxInstances + 1, region)
+      );
+      // Explicit instanceIds are bounded by the input schema, so only a listing is capped
+      const merged = mergeRegionResults(listing);
+      const { items: instances, truncated } = instanceIds
+        ? { items: merged, truncated: false }
+        : capRegionResults(merged, maxInstances);
+
+      const keptRegions = [...new Set(instances.map((instance) => instance.region))];
+      const sweep = await mapRegions(keptRegions, async (region) => {
+        const regionInstances = instances.filter((instance) => instance.region === region);
+        const ids = regionInstances.map((instance) => instance.instanceId);
+
+        const metricsByInstanceId = await getIdleMetricsForInstances(
+          regionInstances,
+          lookbackDays,
+          periodSeconds,
+          standardIdlePolicy.cpuMaxThresholdPct,
+          region
+        );
+        const memoryP95ByInstanceId = await getMemoryP95ForInstances(
+          ids,
+          lookbackDays,
+          periodSeconds,
+          region
+        );
+
+        return regionInstances.map((instance) =>
+          recommendRightsizing(
+            instance,
+            metricsByInstanceId[instance.instanceId] ?? {},
+            memoryP95ByInstanceId[instance.instanceId],
+            ec2Catalog,
+            priceCatalog,
+            region,
+            minDataPoints
+          )
+        );
+      });
+      const results = mergeRegionResults(sweep);
+
+      // Biggest savings first, then everything without a recommendation
+      results.sort(
+        (a, b) => (b.recommendation?.monthlySavings ?? -1) - (a.recommendation?.monthlySavings ?? -1)
+      );
+
+      const oversized = results.filter((item) => item.recommendation);
+      return {
+        catalog: {
+          version: priceCatalog.version,
+          currency: priceCatalog.currency,
+          operatingSystem: "Linux",
+        },
+        regions,
+        regionErrors: describeRegionFailures([...listing.failures, ...sweep.failures]),
+        truncated,
+        analyzed: results.length,
+        oversizedCount: oversized.length,
+        totalMonthlySavings:
+          Math.round(
+            oversized.reduce((sum, item) => sum + item.recommendation!.monthlySavings, 0) * 100
+          ) / 100,
+        results,
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -444,19 +3462,54 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Creates a temporary download link (presigned URL) for a file in an allowed S3 bucket.",
-    inputSchema: presignDownloadInputSchema,
-    outputSchema: presignDownloadOutputSchema,
+      "Audits EC2 security groups. Expands every ingress rule and flags 0.0.0.0/0 or ::/0 access to sensitive ports (SSH, RDP, databases, caches by default, or the sensitivePorts given), overly broad port ranges, and groups attached to nothing. Findings are ranked critical, high, medium, low or info and name the running instances (ID and Name tag) that use each group; exposedInstances answers which instances are open to the internet on which ports. At most maxInstances running instances are checked; instancesTruncated says when there were more. Covers one region: AWS_REGION unless region is given. Read-only.",
+    inputSchema: auditEc2SecurityGroupsInputSchema,
+    outputSchema: auditEc2SecurityGroupsOutputSchema,
   })
-  async presignDownload(
-    args: z.infer<typeof presignDownloadInputSchema>
-  ): Promise<z.infer<typeof presignDownloadOutputSchema>> {
-    const { bucket: requestedBucket, key, expiresInSeconds } = args;
+  async auditEc2SecurityGroups(
+    args: z.infer<typeof auditEc2SecurityGroupsInputSchema>
+  ): Promise<z.infer<typeof auditEc2SecurityGroupsOutputSchema>> {
+    const { sensitivePorts: requestedPorts, broadRangeMinPorts, maxInstances } = args;
+
+    const sensitivePorts: Record<number, string> = requestedPorts
+      ? Object.fromEntries(
+          requestedPorts.map((port) => [port, defaultSensitivePorts[port] ?? `port ${port}`])
+        )
+      : defaultSensitivePorts;
 
     try {
-      const bucket = resolveBucket(requestedBucket);
-      const url = await createPresignedGetUrl(bucket, key, expiresInSeconds);
-      return { url, expiresInSeconds };
+      const region = args.region ?? defaultRegion();
+      // One extra instance shows whether the list was cut at maxInstances
+      const listed = await listRunningInstancesCapped(maxInstances + 1, region);
+      const instances = listed.slice(0, maxInstances);
+      const instancesTruncated = listed.length > maxInstances;
+      const audit = await auditSecurityGroupExposure(
+        instances,
+        sensitivePorts,
+        broadRangeMinPorts,
+        instancesTruncated,
+        region
+      );
+
+      const findingCounts: Record<string, number> = Object.fromEntries(
+        severityOrder.map((severity) => [severity, 0])
+      );
+      for (const finding of audit.findings) findingCounts[finding.severity]++;
+
+      return {
+        region,
+        instancesScanned: instances.length,
+        instancesTruncated,
+        groupCount: audit.groupCount,
+        ruleCount: audit.ruleCount,
+        sensitivePorts: Object.entries(sensitivePorts).map(([port, service]) => ({
+          port: Number(port),
+          service,
+        })),
+        findingCounts,
+        findings: audit.findings,
+        exposedInstances: audit.exposedInstances,
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -464,42 +3517,35 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Finds older files in an allowed S3 bucket using LastModified, with optional bucket, prefix, age, and size filters.",
-    inputSchema: findOldFilesInputSchema,
-    outputSchema: findOldFilesOutputSchema,
+      "Finds unattached (available) EBS volumes, biggest monthly cost first, with size, type, age and estimated monthly cost from the offline price catalog. lastAttachedAt is the last day CloudWatch saw the volume in use (up to 455 days back); EBS does not record which instance it was attached to. Covers one region: AWS_REGION unless region is given. Read-only.",
+    inputSchema: findUnattachedEbsVolumesInputSchema,
+    outputSchema: findUnattachedEbsVolumesOutputSchema,
   })
-  async findOldFiles(
-    args: z.infer<typeof findOldFilesInputSchema>
-  ): Promise<z.infer<typeof findOldFilesOutputSchema>> {
-    const { bucket: requestedBucket, prefix, olderThanDays, minSizeBytes, maxResults } = args;
+  async findUnattachedEbsVolumes(
+    args: z.infer<typeof findUnattachedEbsVolumesInputSchema>
+  ): Promise<z.infer<typeof findUnattachedEbsVolumesOutputSchema>> {
+    const { minAgeDays, maxResults } = args;
 
     // Keep these caps so results stay fast and readable
-    const pageSize = 250;
-    const maxTotalObjects = 5000;
+    const maxVolumes = 1000;
 
     try {
-      const bucket = resolveBucket(requestedBucket);
-      const result = await findOldObjects(
-        bucket,
-        prefix,
-        olderThanDays,
-        minSizeBytes,
-        pageSize,
-        maxTotalObjects
-      );
-
-      const objects = result.objects.slice(0, maxResults);
-      const totalBytes = objects.reduce((sum, item) => sum + item.size, 0);
+      const region = args.region ?? defaultRegion();
+      const result = await findUnattachedVolumes(priceCatalog, region, minAgeDays, maxVolumes);
+      const volumes = result.volumes.slice(0, maxResults);
 
       return {
-        bucket,
-        prefix,
-        olderThanDays,
+        minAgeDays,
+        region,
+        currency: priceCatalog.currency,
         scanned: result.scanned,
-        truncated: result.truncated,
-        resultCount: objects.length,
-        totalBytes,
-        objects,
+        truncated: result.truncated || result.volumes.length > volumes.length,
+        resultCount: volumes.length,
+        totalSizeGb: volumes.reduce((sum, item) => sum + (item.sizeGb ?? 0), 0),
+        totalMonthlyCost: roundCost(
+          volumes.reduce((sum, item) => sum + (item.monthlyCost ?? 0), 0)
+        ),
+        volumes,
       };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
@@ -508,18 +3554,32 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Lists EC2 instances (basic info only). Use this when the user asks what EC2s exist or what is running. This does NOT perform idle detection.",
-    inputSchema: listEc2InstancesInputSchema,
-    outputSchema: listEc2InstancesOutputSchema,
+      "Finds gp2 EBS volumes that would cost less as gp3 with the same baseline IOPS and throughput, biggest monthly savings first. Shows the gp3 IOPS/throughput to provision and both monthly costs. Read-only; changing a volume type is done outside this agent. Covers one region: AWS_REGION unless region is given.",
+    inputSchema: findGp2ToGp3SavingsInputSchema,
+    outputSchema: findGp2ToGp3SavingsOutputSchema,
   })
-  async listEc2Instances(
-    args: z.infer<typeof listEc2InstancesInputSchema>
-  ): Promise<z.infer<typeof listEc2InstancesOutputSchema>> {
-    const { maxInstances, states } = args;
+  async findGp2ToGp3Savings(
+    args: z.infer<typeof findGp2ToGp3SavingsInputSchema>
+  ): Promise<z.infer<typeof findGp2ToGp3SavingsOutputSchema>> {
+    const { maxResults } = args;
+
+    const maxVolumes = 1000;
 
     try {
-      const instances = await listEc2InstancesSimple(maxInstances, states);
-      return { count: instances.length, states, instances };
+      const region = args.region ?? defaultRegion();
+      const result = await findGp2Conversions(priceCatalog, region, maxVolumes);
+      const volumes = result.volumes.slice(0, maxResults);
+
+      return {
+        region,
+        currency: priceCatalog.currency,
+        scanned: result.scanned,
+        truncated: result.truncated || result.volumes.length > volumes.length,
+        resultCount: volumes.length,
+        totalSizeGb: volumes.reduce((sum, item) => sum + item.sizeGb, 0),
+        totalMonthlySavings: roundCost(volumes.reduce((sum, item) => sum + item.monthlySavings, 0)),
+        volumes,
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -527,63 +3587,144 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Detects likely-idle running EC2 instances over a lookback window. Returns stop candidates with evidence.",
-    inputSchema: detectIdleEc2InputSchema,
-    outputSchema: detectIdleEc2OutputSchema,
+      "Lists EBS snapshots owned by this account that are older than olderThanDays or whose source volume no longer exists, biggest monthly cost first. Snapshots are incremental, so monthlyCost is an upper bound on what deleting one saves. usedByImageIds lists AMIs that must be deregistered before a snapshot can be deleted. Covers one region: AWS_REGION unless region is given. Read-only.",
+    inputSchema: findStaleEbsSnapshotsInputSchema,
+    outputSchema: findStaleEbsSnapshotsOutputSchema,
   })
-  async detectIdleEc2(
-    args: z.infer<typeof detectIdleEc2InputSchema>
-  ): Promise<z.infer<typeof detectIdleEc2OutputSchema>> {
-    const { lookbackDays, maxInstances } = args;
+  async findStaleEbsSnapshots(
+    args: z.infer<typeof findStaleEbsSnapshotsInputSchema>
+  ): Promise<z.infer<typeof findStaleEbsSnapshotsOutputSchema>> {
+    const { olderThanDays, maxResults } = args;
 
-    // These are for tuning the idle detector. Can adjust the settings
-    const periodSeconds = 3600;
-    const cpuThresholdPct = 2;
-    const netTotalThresholdBytes = 50 * 1024 * 1024;
-    const minDataPoints = 24;
-    const excludeTagKeys = ["DoNotStop", "Critical"];
+    const maxSnapshots = 2000;
 
     try {
-      const instances: ec2InstanceSummary[] = await listRunningInstancesCapped(maxInstances);
-      const instanceIds = instances.map((instance) => instance.instanceId);
+      const region = args.region ?? defaultRegion();
+      const result = await findStaleSnapshots(priceCatalog, region, olderThanDays, maxSnapshots);
+      const snapshots = result.snapshots.slice(0, maxResults);
 
-      const metricsByInstanceId = await getIdleMetricsForInstances(
-        instanceIds,
-        lookbackDays,
-        periodSeconds
-      );
+      return {
+        olderThanDays,
+        region,
+        currency: priceCatalog.currency,
+        scanned: result.scanned,
+        truncated: result.truncated || result.snapshots.length > snapshots.length,
+        resultCount: snapshots.length,
+        totalSizeGb: roundCost(snapshots.reduce((sum, item) => sum + (item.sizeGb ?? 0), 0)),
+        totalMonthlyCost: roundCost(
+          snapshots.reduce((sum, item) => sum + (item.monthlyCost ?? 0), 0)
+        ),
+        snapshots,
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
 
-      const candidates: idleCandidate[] = instances.map((instance) =>
-        classifyIdle(
-          instance,
-          metricsByInstanceId[instance.instanceId] ?? {},
-          cpuThresholdPct,
-          netTotalThresholdBytes,
-          minDataPoints,
-          excludeTagKeys
-        )
-      );
+  @DaemoFunction({
+    description:
+      "Shows EC2 instances that follow an office-hours Schedule tag (e.g. weekdays-08-19-America/New_York): whether they should be running now, the next start/stop times within the window, pauses, invalid tags, the scheduler's recent actions and its last failed tick. Also reports whether the scheduler is off, in dry-run or live. The scheduler only manages instances in AWS_REGION.",
+    inputSchema: previewEc2SchedulesInputSchema,
+    outputSchema: previewEc2SchedulesOutputSchema,
+  })
+  async previewEc2Schedules(
+    args: z.infer<typeof previewEc2SchedulesInputSchema>
+  ): Promise<z.infer<typeof previewEc2SchedulesOutputSchema>> {
+    const { instanceIds, hours, recentActions } = args;
+    const { holidays } = ec2ScheduleSettings;
 
-      // Sort idle first, then confidence, then CPU, then network
-      candidates.sort((a, b) => {
-        if (a.idle !== b.idle) return a.idle ? -1 : 1;
+    try {
+      const now = Date.now();
+      const wanted = instanceIds ? new Set(instanceIds) : undefined;
+      const scheduled = (await listScheduledInstances()).filter(
+        (instance) => !wanted || wanted.has(instance.instanceId)
+      );
 
-        const confidenceRank = (value: string) =>
-          value === "HIGH" ? 0 : value === "MEDIUM" ? 1 : 2;
+      const instances = scheduled.map((instance) => {
+        const tags = instance.tags ?? {};
+        const base = {
+          instanceId: instance.instanceId,
+          name: instance.name,
+          state: instance.state,
+          schedule: tags[scheduleTagKey],
+          pausedUntil: pausedUntil(tags, now),
+        };
+
+        try {
+          const schedule = parseScheduleTag(tags[scheduleTagKey]);
+          const localFormat = new Intl.DateTimeFormat("en-US", {
+            timeZone: schedule.timeZone,
+            weekday: "short",
+            month: "short",
+            day: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+            hourCycle: "h23",
+          });
+          return {
+            ...base,
+            timeZone: schedule.timeZone,
+            desiredState: desiredStateAt(schedule, now, holidays),
+            nextActions: nextScheduledActions(schedule, now, now + hours * 3600 * 1000, holidays).map(
+              (item) => ({
+                action: item.action,
+                at: new Date(item.at).toISOString(),
+                localTime: localFormat.format(item.at),
+              })
+            ),
+          };
+        } catch (error: any) {
+          return { ...base, error: error?.message ?? "Invalid schedule", nextActions: [] };
+        }
+      });
 
-        const rankDiff = confidenceRank(a.confidence) - confidenceRank(b.confidence);
-        if (rankDiff !== 0) return rankDiff;
+      return {
+        mode: ec2ScheduleSettings.mode,
+        intervalSeconds: ec2ScheduleSettings.intervalSeconds,
+        holidays: [...holidays].sort(),
+        instances,
+        recentActions: recentActions > 0 ? recentScheduleActions(recentActions) : [],
+        lastTickFailure: lastScheduleTickFailure(),
+      };
+    } catch (error: any) {
+      throw new Error(formatAwsErrorMessage(error));
+    }
+  }
 
-        const aCpu = a.cpuAvg ?? Number.POSITIVE_INFINITY;
-        const bCpu = b.cpuAvg ?? Number.POSITIVE_INFINITY;
-        if (aCpu !== bCpu) return aCpu - bCpu;
+  @DaemoFunction({
+    description:
+      "Pauses the office-hours schedule for one EC2 instance for a number of hours (the scheduler will neither start nor stop it), or resumes it with resume=true. The pause is stored as a SchedulePausedUntil tag on the instance. Only instances in AWS_REGION are scheduled.",
+    inputSchema: pauseEc2ScheduleInputSchema,
+    outputSchema: pauseEc2ScheduleOutputSchema,
+  })
+  async pauseEc2Schedule(
+    args: z.infer<typeof pauseEc2ScheduleInputSchema>
+  ): Promise<z.infer<typeof pauseEc2ScheduleOutputSchema>> {
+    const { instanceId, hours, resume } = args;
 
-        const aNet = (a.netInBytesTotal ?? 0) + (a.netOutBytesTotal ?? 0);
-        const bNet = (b.netInBytesTotal ?? 0) + (b.netOutBytesTotal ?? 0);
-        return aNet - bNet;
-      });
+    if (!resume && hours === undefined) {
+      throw new Error("Pass hours to pause the schedule, or resume=true to lift a pause.");
+    }
 
-      return { scanned: candidates.length, candidates };
+    try {
+      const [instance] = await describeEc2Instances([instanceId]);
+      const schedule = instance?.tags?.[scheduleTagKey];
+      if (!schedule) {
+        const error = new Error(
+          `Instance ${instanceId} has no ${scheduleTagKey} tag, so there is no schedule to pause.`
+        );
+        error.name = "NotScheduled";
+        throw error;
+      }
+
+      if (resume) {
+        await setSchedulePause(instanceId);
+        return { instanceId, schedule, resumed: true };
+      }
+
+      const until = new Date(Date.now() + hours! * 3600 * 1000);
+      await setSchedulePause(instanceId, until);
+      return { instanceId, schedule, pausedUntil: until.toISOString(), resumed: false };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -591,18 +3732,67 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Lists RDS DB instances (basic info). Use when the user asks what databases exist or are available.",
+      "Lists the idle-detection policies detectIdleEc2 can apply, their thresholds, and the tag selectors that pick them automatically.",
+    inputSchema: emptyInputSchema,
+    outputSchema: listIdlePoliciesOutputSchema,
+  })
+  async listIdlePolicies(): Promise<z.infer<typeof listIdlePoliciesOutputSchema>> {
+    return {
+      defaultPolicy: ec2IdlePolicies.defaultPolicy,
+      policies: Object.entries(ec2IdlePolicies.policies).map(([name, thresholds]) => ({
+        name,
+        isDefault: name === ec2IdlePolicies.defaultPolicy,
+        ...thresholds,
+      })),
+      selectors: ec2IdlePolicies.selectors,
+    };
+  }
+
+  @DaemoFunction({
+    description:
+      "Lists RDS DB instances (basic info). Use when the user asks what databases exist or are available. Set includeCost to add each instance's on-demand hourly and monthly cost (instance plus allocated storage, doubled for Multi-AZ) from the offline price catalog, plus totals. Pass regions (a list, or \"all-enabled\" for every enabled region) to sweep several regions at once; every record carries its region and regions that fail are listed in regionErrors instead of failing the call.",
     inputSchema: listRdsInstancesInputSchema,
     outputSchema: listRdsInstancesOutputSchema,
   })
   async listRdsInstances(
     args: z.infer<typeof listRdsInstancesInputSchema>
   ): Promise<z.infer<typeof listRdsInstancesOutputSchema>> {
-    const { maxInstances } = args;
+    const { regions: regionSelection, maxInstances, includeCost } = args;
 
     try {
-      const instances: rdsInstanceSummary[] = await listRdsInstancesSimple(maxInstances);
-      return { count: instances.length, instances };
+      const regions = await resolveRegions(regionSelection);
+      const sweep = await mapRegions(
+        regions,
+        (region): Promise<rdsInstanceSummary[]> => listRdsInstancesSimple(maxInstances + 1, region)
+      );
+      const { items: instances, truncated } = capRegionResults(
+        mergeRegionResults(sweep),
+        maxInstances
+      );
+      const regionErrors = describeRegionFailures(sweep.failures);
+      if (!includeCost) {
+        return { count: instances.length, regions, regionErrors, truncated, instances };
+      }
+
+      const priced = instances.map((instance) => ({
+        instance,
+        cost: rdsInstanceCost(priceCatalog, instance.region, instance),
+      }));
+      return {
+        count: instances.length,
+        regions,
+        regionErrors,
+        truncated,
+        instances: priced.map(({ instance, cost }) => ({ ...instance, ...cost })),
+        costSummary: summarizeCosts(
+          priceCatalog,
+          regions,
+          priced.map(({ instance, cost }) => ({
+            cost,
+            type: `${instance.engine ?? "unknown"}:${instance.instanceClass ?? "unknown"}`,
+          }))
+        ),
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
@@ -670,22 +3860,46 @@ export class AwsFunctions {
 
   @DaemoFunction({
     description:
-      "Gets RDS CPU utilization from CloudWatch for a DB instance over a lookback window.",
+      "Gets RDS CPU utilization from CloudWatch for a DB instance over a lookback window. Pass regions (a list, or \"all-enabled\") to look for the instance in several regions; results holds each region where it reported CPU and regions that fail are listed in regionErrors.",
     inputSchema: rdsCpuInputSchema,
     outputSchema: rdsCpuOutputSchema,
   })
   async getRdsCpuUtilization(
     args: z.infer<typeof rdsCpuInputSchema>
   ): Promise<z.infer<typeof rdsCpuOutputSchema>> {
-    const { dbInstanceIdentifier, lookbackHours, periodSeconds } = args;
+    const { dbInstanceIdentifier, regions: regionSelection, lookbackHours, periodSeconds } = args;
 
     try {
-      const metrics: rdsCpuMetrics = await getRdsCpuUtilization(
+      const regions = await resolveRegions(regionSelection);
+      const sweep = await mapRegions(regions, async (region) => {
+        const metrics: rdsCpuMetrics = await getRdsCpuUtilization(
+          dbInstanceIdentifier,
+          lookbackHours,
+          periodSeconds,
+          region
+        );
+        return [
+          {
+            datapoints: metrics.datapoints,
+            average: metrics.average,
+            minimum: metrics.minimum,
+            maximum: metrics.maximum,
+            latestTimestamp: metrics.latestTimestamp,
+            latestAverage: metrics.latestAverage,
+          },
+        ];
+      });
+      const measured = mergeRegionResults(sweep);
+
+      // CloudWatch returns no datapoints rather than an error where the instance does not exist
+      const withData = measured.filter((item) => item.datapoints > 0);
+      return {
         dbInstanceIdentifier,
-        lookbackHours,
-        periodSeconds
-      );
-      return metrics;
+        periodSeconds,
+        regions,
+        regionErrors: describeRegionFailures(sweep.failures),
+        results: withData.length > 0 ? withData : measured,
+      };
     } catch (error: any) {
       throw new Error(formatAwsErrorMessage(error));
     }
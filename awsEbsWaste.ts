@@ -0,0 +1,399 @@
+import {
+  DescribeImagesCommand,
+  DescribeSnapshotsCommand,
+  DescribeVolumesCommand,
+  type DescribeImagesCommandOutput,
+  type DescribeSnapshotsCommandOutput,
+  type DescribeVolumesCommandOutput,
+  type Filter,
+  type Tag,
+  type Volume,
+} from "@aws-sdk/client-ec2";
+import {
+  GetMetricDataCommand,
+  type GetMetricDataCommandOutput,
+  type MetricDataQuery,
+} from "@aws-sdk/client-cloudwatch";
+
+import {
+  ebsSnapshotMonthlyCost,
+  ebsVolumeMonthlyCost,
+  type PriceCatalog,
+} from "./awsPricing.js";
+import { ec2ClientFor, cloudWatchClientFor } from "./awsRegions.js";
+
+// Finds EBS spend that buys nothing: unattached volumes, gp2 volumes that gp3 would serve
+// for less, and snapshots that are old or whose volume is gone. EBS does not record which
+// instance a volume was last attached to (that needs CloudTrail), so unattached volumes
+// report the last day CloudWatch saw them in use instead.
+
+export type unattachedVolume = {
+  volumeId: string;
+  name?: string;
+  volumeType?: string;
+  sizeGb?: number;
+  availabilityZone?: string;
+  createTime?: string;
+  ageDays?: number;
+  // Last day with AWS/EBS metrics, which are only published while attached (455 days max)
+  lastAttachedAt?: string;
+  snapshotId?: string;
+  monthlyCost?: number;
+};
+
+export type gp2Conversion = {
+  volumeId: string;
+  name?: string;
+  sizeGb: number;
+  state?: string;
+  attachedInstanceId?: string;
+  gp2Iops: number;
+  // gp3 settings that match the gp2 baseline
+  gp3Iops: number;
+  gp3ThroughputMibps: number;
+  currentMonthlyCost: number;
+  gp3MonthlyCost: number;
+  monthlySavings: number;
+};
+
+export type staleSnapshot = {
+  snapshotId: string;
+  volumeId?: string;
+  description?: string;
+  sizeGb?: number;
+  // "full-snapshot" is the stored size; "volume" is the source volume size, an upper bound
+  sizeSource: "full-snapshot" | "volume";
+  startTime?: string;
+  ageDays?: number;
+  reasons: string[];
+  sourceVolumeExists?: boolean;
+  // Snapshots backing an AMI cannot be deleted until the image is deregistered
+  usedByImageIds: string[];
+  // Snapshots are incremental, so this is an upper bound on what deleting one saves
+  monthlyCost?: number;
+};
+
+// EC2 uses this placeholder for snapshots copied from another snapshot
+const copiedSnapshotVolumeId = "vol-ffffffff";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+function tagsToRecord(tags?: Tag[]): Record<string, string> {
+  const tagsRecord: Record<string, string> = {};
+  for (const tag of tags ?? []) {
+    if (tag.Key && typeof tag.Value === "string") tagsRecord[tag.Key] = tag.Value;
+  }
+  return tagsRecord;
+}
+
+function ageDays(date?: Date): number | undefined {
+  return date ? Math.floor((Date.now() - date.getTime()) / dayMs) : undefined;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// Biggest monthly cost first; unpriced items go last, largest first
+function byWasteDescending(
+  a: { monthlyCost?: number; sizeGb?: number },
+  b: { monthlyCost?: number; sizeGb?: number }
+): number {
+  const costDiff = (b.monthlyCost ?? -1) - (a.monthlyCost ?? -1);
+  return costDiff !== 0 ? costDiff : (b.sizeGb ?? 0) - (a.sizeGb ?? 0);
+}
+
+async function listVolumesCapped(
+  filters: Filter[],
+  maxVolumes: number,
+  region: string
+): Promise<{ volumes: Volume[]; truncated: boolean }> {
+  const volumes: Volume[] = [];
+  let nextToken: string | undefined = undefined;
+
+  do {
+    // AWS expects MaxResults between 5 and 500
+    const maxResults = Math.min(500, Math.max(5, maxVolumes - volumes.length));
+    const resp: DescribeVolumesCommandOutput = await ec2ClientFor(region).send(
+      new DescribeVolumesCommand({ Filters: filters, MaxResults: maxResults, NextToken: nextToken })
+    );
+
+    for (const volume of resp.Volumes ?? []) {
+      if (!volume.VolumeId) continue;
+      if (volumes.length >= maxVolumes) return { volumes, truncated: true };
+      volumes.push(volume);
+    }
+
+    nextToken = resp.NextToken;
+  } while (nextToken && volumes.length < maxVolumes);
+
+  return { volumes, truncated: Boolean(nextToken) };
+}
+
+// Latest day each volume reported VolumeIdleTime, i.e. was attached to a running instance
+async function getLastAttachedDates(
+  volumeIds: string[],
+  region: string
+): Promise<Record<string, string>> {
+  const lastByVolumeId: Record<string, string> = {};
+  const endTime = new Date();
+  const startTime = new Date(endTime.getTime() - 455 * dayMs);
+
+  // GetMetricData accepts up to 500 queries per call
+  for (const group of chunk(volumeIds, 500)) {
+    const queries: MetricDataQuery[] = group.map((volumeId, idx) => ({
+      Id: `v${idx}`,
+      MetricStat: {
+        Metric: {
+          Namespace: "AWS/EBS",
+          MetricName: "VolumeIdleTime",
+          Dimensions: [{ Name: "VolumeId", Value: volumeId }],
+        },
+        Period: 86400,
+        Stat: "SampleCount",
+      },
+      ReturnData: true,
+    }));
+
+    let nextToken: string | undefined = undefined;
+    do {
+      const resp: GetMetricDataCommandOutput = await cloudWatchClientFor(region).send(
+        new GetMetricDataCommand({
+          StartTime: startTime,
+          EndTime: endTime,
+          MetricDataQueries: queries,
+          ScanBy: "TimestampDescending",
+          NextToken: nextToken,
+        })
+      );
+
+      for (const result of resp.MetricDataResults ?? []) {
+        const volumeId = group[Number(result.Id?.slice(1))];
+        const latest = result.Timestamps?.[0];
+        if (!volumeId || !latest) continue;
+        const iso = latest.toISOString();
+        if (!lastByVolumeId[volumeId] || iso > lastByVolumeId[volumeId]) {
+          lastByVolumeId[volumeId] = iso;
+        }
+      }
+
+      nextToken = resp.NextToken;
+    } while (nextToken);
+  }
+
+  return lastByVolumeId;
+}
+
+export async function findUnattachedVolumes(
+  catalog: PriceCatalog,
+  region: string,
+  minAgeDays: number,
+  maxVolumes: number
+): Promise<{ volumes: unattachedVolume[]; scanned: number; truncated: boolean }> {
+  const { volumes, truncated } = await listVolumesCapped(
+    [{ Name: "status", Values: ["available"] }],
+    maxVolumes,
+    region
+  );
+
+  const old = volumes.filter((volume) => (ageDays(volume.CreateTime) ?? 0) >= minAgeDays);
+  const lastAttached = await getLastAttachedDates(
+    old.map((volume) => volume.VolumeId!),
+    region
+  );
+
+  const findings: unattachedVolume[] = old.map((volume) => ({
+    volumeId: volume.VolumeId!,
+    name: tagsToRecord(volume.Tags).Name,
+    volumeType: volume.VolumeType,
+    sizeGb: volume.Size,
+    availabilityZone: volume.AvailabilityZone,
+    createTime: volume.CreateTime?.toISOString(),
+    ageDays: ageDays(volume.CreateTime),
+    lastAttachedAt: lastAttached[volume.VolumeId!],
+    snapshotId: volume.SnapshotId || undefined,
+    monthlyCost: ebsVolumeMonthlyCost(catalog, region, {
+      volumeType: volume.VolumeType,
+      sizeGb: volume.Size,
+      iops: volume.Iops,
+      throughputMibps: volume.Throughput,
+    }),
+  }));
+
+  findings.sort(byWasteDescending);
+  return { volumes: findings, scanned: volumes.length, truncated };
+}
+
+// gp2 gives 3 IOPS per GiB (100 to 16000) and up to 250 MiB/s above 170 GiB. gp3 is
+// priced per GiB with 3000 IOPS and 125 MiB/s included, so matching the gp2 baseline
+// only costs extra for large volumes.
+export function gp3Equivalent(sizeGb: number): {
+  gp2Iops: number;
+  gp3Iops: number;
+  gp3ThroughputMibps: number;
+} {
+  const gp2Iops = Math.min(16000, Math.max(100, sizeGb * 3));
+  return {
+    gp2Iops,
+    gp3Iops: Math.max(3000, gp2Iops),
+    gp3ThroughputMibps: sizeGb > 170 ? 250 : 125,
+  };
+}
+
+export async function findGp2Conversions(
+  catalog: PriceCatalog,
+  region: string,
+  maxVolumes: number
+): Promise<{ volumes: gp2Conversion[]; scanned: number; truncated: boolean }> {
+  const { volumes, truncated } = await listVolumesCapped(
+    [{ Name: "volume-type", Values: ["gp2"] }],
+    maxVolumes,
+    region
+  );
+
+  const findings: gp2Conversion[] = [];
+  for (const volume of volumes) {
+    if (volume.Size === undefined) continue;
+    const equivalent = gp3Equivalent(volume.Size);
+
+    const currentMonthlyCost = ebsVolumeMonthlyCost(catalog, region, {
+      volumeType: "gp2",
+      sizeGb: volume.Size,
+    });
+    const gp3MonthlyCost = ebsVolumeMonthlyCost(catalog, region, {
+      volumeType: "gp3",
+      sizeGb: volume.Size,
+      iops: equivalent.gp3Iops,
+      throughputMibps: equivalent.gp3ThroughputMibps,
+    });
+    if (currentMonthlyCost === undefined || gp3MonthlyCost === undefined) continue;
+    if (gp3MonthlyCost >= currentMonthlyCost) continue;
+
+    findings.push({
+      volumeId: volume.VolumeId!,
+      name: tagsToRecord(volume.Tags).Name,
+      sizeGb: volume.Size,
+      state: volume.State,
+      attachedInstanceId: volume.Attachments?.[0]?.InstanceId,
+      ...equivalent,
+      currentMonthlyCost,
+      gp3MonthlyCost,
+      monthlySavings: Math.round((currentMonthlyCost - gp3MonthlyCost) * 10000) / 10000,
+    });
+  }
+
+  findings.sort((a, b) => b.monthlySavings - a.monthlySavings);
+  return { volumes: findings, scanned: volumes.length, truncated };
+}
+
+async function existingVolumeIds(volumeIds: string[], region: string): Promise<Set<string>> {
+  const existing = new Set<string>();
+  // Filtering by volume-id skips deleted volumes instead of failing the whole call
+  for (const group of chunk(volumeIds, 200)) {
+    const { volumes } = await listVolumesCapped(
+      [{ Name: "volume-id", Values: group }],
+      group.length,
+      region
+    );
+    for (const volume of volumes) existing.add(volume.VolumeId!);
+  }
+  return existing;
+}
+
+async function imageIdsBySnapshotId(region: string): Promise<Map<string, string[]>> {
+  const imagesBySnapshot = new Map<string, string[]>();
+  let nextToken: string | undefined = undefined;
+  do {
+    const resp: DescribeImagesCommandOutput = await ec2ClientFor(region).send(
+      new DescribeImagesCommand({ Owners: ["self"], NextToken: nextToken })
+    );
+    for (const image of resp.Images ?? []) {
+      for (const mapping of image.BlockDeviceMappings ?? []) {
+        const snapshotId = mapping.Ebs?.SnapshotId;
+        if (!snapshotId || !image.ImageId) continue;
+        const imageIds = imagesBySnapshot.get(snapshotId) ?? [];
+        imagesBySnapshot.set(snapshotId, [...imageIds, image.ImageId]);
+      }
+    }
+    nextToken = resp.NextToken;
+  } while (nextToken);
+  return imagesBySnapshot;
+}
+
+export async function findStaleSnapshots(
+  catalog: PriceCatalog,
+  region: string,
+  olderThanDays: number,
+  maxSnapshots: number
+): Promise<{ snapshots: staleSnapshot[]; scanned: number; truncated: boolean }> {
+  const all: NonNullable<DescribeSnapshotsCommandOutput["Snapshots"]> = [];
+  let nextToken: string | undefined = undefined;
+  let truncated = false;
+  do {
+    const resp: DescribeSnapshotsCommandOutput = await ec2ClientFor(region).send(
+      new DescribeSnapshotsCommand({
+        OwnerIds: ["self"],
+        MaxResults: Math.min(1000, Math.max(5, maxSnapshots - all.length)),
+        NextToken: nextToken,
+      })
+    );
+    for (const snapshot of resp.Snapshots ?? []) {
+      if (!snapshot.SnapshotId) continue;
+      if (all.length >= maxSnapshots) truncated = true;
+      else all.push(snapshot);
+    }
+    nextToken = resp.NextToken;
+  } while (nextToken && all.length < maxSnapshots);
+  if (nextToken) truncated = true;
+
+  const sourceIds = [
+    ...new Set(
+      all
+        .map((snapshot) => snapshot.VolumeId)
+        .filter((id): id is string => Boolean(id) && id !== copiedSnapshotVolumeId)
+    ),
+  ];
+  const existing = await existingVolumeIds(sourceIds, region);
+  const images = await imageIdsBySnapshotId(region);
+
+  const findings: staleSnapshot[] = [];
+  for (const snapshot of all) {
+    const age = ageDays(snapshot.StartTime);
+    const knownSource = Boolean(snapshot.VolumeId) && snapshot.VolumeId !== copiedSnapshotVolumeId;
+    const sourceVolumeExists = knownSource ? existing.has(snapshot.VolumeId!) : undefined;
+
+    const reasons: string[] = [];
+    if (age !== undefined && age >= olderThanDays) {
+      reasons.push(`Older than ${olderThanDays} days.`);
+    }
+    if (sourceVolumeExists === false) {
+      reasons.push(`Source volume ${snapshot.VolumeId} no longer exists.`);
+    }
+    if (reasons.length === 0) continue;
+
+    const fullGb =
+      snapshot.FullSnapshotSizeInBytes !== undefined
+        ? Math.round((snapshot.FullSnapshotSizeInBytes / 1024 ** 3) * 100) / 100
+        : undefined;
+    const sizeGb = fullGb ?? snapshot.VolumeSize;
+
+    findings.push({
+      snapshotId: snapshot.SnapshotId!,
+      volumeId: knownSource ? snapshot.VolumeId : undefined,
+      description: snapshot.Description || undefined,
+      sizeGb,
+      sizeSource: fullGb !== undefined ? "full-snapshot" : "volume",
+      startTime: snapshot.StartTime?.toISOString(),
+      ageDays: age,
+      reasons,
+      sourceVolumeExists,
+      usedByImageIds: images.get(snapshot.SnapshotId!) ?? [],
+      monthlyCost: ebsSnapshotMonthlyCost(catalog, region, sizeGb),
+    });
+  }
+
+  findings.sort(byWasteDescending);
+  return { snapshots: findings, scanned: all.length, truncated };
+}
@@ -0,0 +1,357 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  CreateTagsCommand,
+  StopInstancesCommand,
+  TerminateInstancesCommand,
+  type InstanceStateChange,
+} from "@aws-sdk/client-ec2";
+
+import {
+  describeEc2Instances,
+  detectIdleInstances,
+  type ec2InstanceSummary,
+  type idleCandidate,
+} from "./awsEc2Idle.js";
+import { exclusionReason, type appliedIdlePolicy } from "./awsEc2IdlePolicy.js";
+import {
+  ec2ClientFor,
+  mapRegions,
+  mergeRegionResults,
+  type regionFailure,
+} from "./awsRegions.js";
+
+// Stop, hibernate and terminate go through a plan with a confirmation token, like S3
+// deletions. There is no bucket to hold EC2 plans, so they live in memory for the life
+// of the process, and only a hash of the token is kept.
+
+export type Ec2Action = "stop" | "hibernate" | "terminate";
+
+// Instance IDs are only meaningful within a region, so every action carries both
+export type Ec2ActionTarget = {
+  instanceId: string;
+  region: string;
+};
+
+export type Ec2ActionPlan = {
+  planId: string;
+  action: Ec2Action;
+  reason: string;
+  targets: Ec2ActionTarget[];
+  // Kept so execution re-checks idleness the same way the plan did
+  lookbackDays: number;
+  policy?: string;
+  createdAt: string;
+  expiresAt: string;
+  status: "pending" | "executed";
+  executedAt?: string;
+  tokenHash: string;
+};
+
+export type Ec2ActionOutcome = {
+  instanceId: string;
+  // Absent when the instance was not found in any region
+  region?: string;
+  status: "stopped" | "hibernated" | "terminated" | "failed" | "refused";
+  previousState?: string;
+  currentState?: string;
+  code?: string;
+  message?: string;
+};
+
+// Who acted, written to the <Verb>By tag on every instance the agent touches
+export const ec2ActionActor = "daemo-agent";
+
+const tagPrefixByAction: Record<Ec2Action, string> = {
+  stop: "Stopped",
+  hibernate: "Hibernated",
+  terminate: "Terminated",
+};
+
+const doneStatusByAction: Record<Ec2Action, Ec2ActionOutcome["status"]> = {
+  stop: "stopped",
+  hibernate: "hibernated",
+  terminate: "terminated",
+};
+
+const pendingPlans = new Map<string, Ec2ActionPlan>();
+
+function ec2ActionError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+async function sendAction(
+  action: Ec2Action,
+  target: Ec2ActionTarget,
+  dryRun: boolean
+): Promise<InstanceStateChange | undefined> {
+  const ec2Client = ec2ClientFor(target.region);
+  if (action === "terminate") {
+    const resp = await ec2Client.send(
+      new TerminateInstancesCommand({ InstanceIds: [target.instanceId], DryRun: dryRun })
+    );
+    return resp.TerminatingInstances?.[0];
+  }
+  const resp = await ec2Client.send(
+    new StopInstancesCommand({
+      InstanceIds: [target.instanceId],
+      Hibernate: action === "hibernate",
+      DryRun: dryRun,
+    })
+  );
+  return resp.StoppingInstances?.[0];
+}
+
+// EC2 answers a DryRun that would have succeeded with a DryRunOperation error. Checks
+// both the action and the tagging that precedes it. Returns undefined when both are
+// permitted, otherwise the refusing error.
+async function dryRunEc2Action(
+  action: Ec2Action,
+  target: Ec2ActionTarget
+): Promise<{ code: string; message: string } | undefined> {
+  const calls = [
+    () => sendAction(action, target, true),
+    () =>
+      ec2ClientFor(target.region).send(
+        new CreateTagsCommand({
+          Resources: [target.instanceId],
+          Tags: [{ Key: `${tagPrefixByAction[action]}By`, Value: ec2ActionActor }],
+          DryRun: true,
+        })
+      ),
+  ];
+
+  for (const call of calls) {
+    try {
+      await call();
+    } catch (error: any) {
+      const code = error?.name ?? error?.Code ?? "Unknown";
+      if (code === "DryRunOperation") continue;
+      return { code, message: error?.message ?? "Dry run failed." };
+    }
+  }
+  return undefined;
+}
+
+// Finds the region holding each instance. IDs that no region reports are left out, and
+// regions that could not be described are returned so callers can say where they did not
+// look. Fails only when every region failed.
+export async function locateEc2Instances(
+  instanceIds: string[],
+  regions: string[]
+): Promise<{ targets: Ec2ActionTarget[]; failures: regionFailure[] }> {
+  const sweep = await mapRegions(regions, (region) => describeEc2Instances(instanceIds, region));
+  const targets = new Map<string, Ec2ActionTarget>();
+  for (const instance of mergeRegionResults(sweep)) {
+    const { instanceId, region } = instance;
+    if (!targets.has(instanceId)) targets.set(instanceId, { instanceId, region });
+  }
+  return { targets: [...targets.values()], failures: sweep.failures };
+}
+
+// Runs before planning and again before acting: the instance must still exist, be
+// running, not carry exclusion tags, classify as idle, and pass the DryRun.
+export async function checkEc2ActionEligibility(
+  action: Ec2Action,
+  targets: Ec2ActionTarget[],
+  lookbackDays: number,
+  policyFor: (instance: ec2InstanceSummary) => appliedIdlePolicy
+): Promise<{ eligible: Array<idleCandidate & { region: string }>; refused: Ec2ActionOutcome[] }> {
+  const eligible: Array<idleCandidate & { region: string }> = [];
+  const refused: Ec2ActionOutcome[] = [];
+
+  const idsByRegion = new Map<string, string[]>();
+  for (const { instanceId, region } of targets) {
+    idsByRegion.set(region, [...(idsByRegion.get(region) ?? []), instanceId]);
+  }
+
+  for (const [region, instanceIds] of idsByRegion) {
+    const refuse = (instanceId: string, code: string, message: string) =>
+      refused.push({ instanceId, region, status: "refused", code, message });
+
+    const found = await describeEc2Instances(instanceIds, region);
+    const foundIds = new Set(found.map((instance) => instance.instanceId));
+    for (const instanceId of instanceIds) {
+      if (!foundIds.has(instanceId)) refuse(instanceId, "NotFound", "No such instance.");
+    }
+
+    const candidates: ec2InstanceSummary[] = [];
+    for (const instance of found) {
+      const excluded = exclusionReason(instance.tags ?? {}, policyFor(instance));
+      if (instance.state !== "running") {
+        refuse(
+          instance.instanceId,
+          "NotRunning",
+          `Instance is ${instance.state ?? "in an unknown state"}.`
+        );
+      } else if (excluded) {
+        refuse(instance.instanceId, "ExcludedByTag", `Instance ${excluded}.`);
+      } else if (action === "hibernate" && !instance.hibernationConfigured) {
+        refuse(
+          instance.instanceId,
+          "HibernationNotConfigured",
+          "Hibernation was not enabled when this instance was launched. Use stop instead."
+        );
+      } else {
+        candidates.push(instance);
+      }
+    }
+
+    const classified = await detectIdleInstances(candidates, lookbackDays, policyFor, region);
+    for (const candidate of classified) {
+      if (!candidate.idle) {
+        refuse(
+          candidate.instanceId,
+          "NotIdle",
+          `No longer classified as idle (${candidate.confidence}): ${candidate.reason.join(" ")}`
+        );
+        continue;
+      }
+
+      const denied = await dryRunEc2Action(action, { instanceId: candidate.instanceId, region });
+      if (denied) {
+        refuse(candidate.instanceId, denied.code, `DryRun failed: ${denied.message}`);
+        continue;
+      }
+      eligible.push({ ...candidate, region });
+    }
+  }
+
+  return { eligible, refused };
+}
+
+export function createEc2ActionPlan(
+  action: Ec2Action,
+  reason: string,
+  targets: Ec2ActionTarget[],
+  lookbackDays: number,
+  policy: string | undefined,
+  expiresInSeconds: number
+): { plan: Ec2ActionPlan; confirmationToken: string } {
+  const planId = randomUUID();
+  const secret = randomBytes(24).toString("base64url");
+  const now = Date.now();
+
+  // Drop expired plans so the map does not grow for the life of the process
+  for (const [id, existing] of pendingPlans) {
+    if (Date.parse(existing.expiresAt) <= now) pendingPlans.delete(id);
+  }
+
+  const plan: Ec2ActionPlan = {
+    planId,
+    action,
+    reason,
+    targets,
+    lookbackDays,
+    policy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + expiresInSeconds * 1000).toISOString(),
+    status: "pending",
+    tokenHash: hashToken(secret),
+  };
+  pendingPlans.set(planId, plan);
+
+  return { plan, confirmationToken: `${planId}.${secret}` };
+}
+
+// Terminate also needs the user to type "terminate" followed by every instance ID in the
+// plan, in any order. The phrase is never handed out, so it cannot be echoed back unread.
+export function matchesTerminationPhrase(
+  plan: Ec2ActionPlan,
+  phrase: string | undefined
+): boolean {
+  const [verb, ...ids] = (phrase ?? "").trim().split(/[\s,]+/);
+  if (verb?.toLowerCase() !== "terminate") return false;
+
+  const typed = new Set(ids.filter(Boolean));
+  const planned = new Set(plan.targets.map((target) => target.instanceId));
+  return typed.size === planned.size && [...planned].every((instanceId) => typed.has(instanceId));
+}
+
+export function loadEc2ActionPlanForToken(confirmationToken: string): Ec2ActionPlan {
+  const [planId, secret] = confirmationToken.trim().split(".");
+  if (!planId || !secret || !/^[0-9a-f-]{36}$/.test(planId)) {
+    throw ec2ActionError("Ec2ActionTokenInvalid", "The confirmation token is malformed.");
+  }
+
+  const plan = pendingPlans.get(planId);
+  if (!plan) {
+    throw ec2ActionError(
+      "Ec2ActionPlanNotFound",
+      `No EC2 action plan ${planId} exists. Plans are lost when the service restarts.`
+    );
+  }
+
+  const expected = Buffer.from(plan.tokenHash, "hex");
+  const actual = Buffer.from(hashToken(secret), "hex");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw ec2ActionError("Ec2ActionTokenInvalid", "The confirmation token does not match the plan.");
+  }
+
+  if (plan.status !== "pending") {
+    throw ec2ActionError(
+      "Ec2ActionPlanAlreadyExecuted",
+      `EC2 action plan ${planId} was already executed at ${plan.executedAt ?? "an earlier time"}.`
+    );
+  }
+
+  if (Date.parse(plan.expiresAt) <= Date.now()) {
+    throw ec2ActionError(
+      "Ec2ActionPlanExpired",
+      `EC2 action plan ${planId} expired at ${plan.expiresAt}. Create a new plan.`
+    );
+  }
+
+  return plan;
+}
+
+// Marks the plan used before anything runs so the token cannot be replayed
+export function markEc2ActionPlanExecuted(plan: Ec2ActionPlan): void {
+  plan.status = "executed";
+  plan.executedAt = new Date().toISOString();
+}
+
+export async function applyEc2Action(
+  plan: Ec2ActionPlan,
+  target: Ec2ActionTarget
+): Promise<Ec2ActionOutcome> {
+  const { instanceId, region } = target;
+  const tagPrefix = tagPrefixByAction[plan.action];
+
+  try {
+    // Tag first: a terminated instance cannot be tagged afterwards
+    await ec2ClientFor(region).send(
+      new CreateTagsCommand({
+        Resources: [instanceId],
+        Tags: [
+          { Key: `${tagPrefix}By`, Value: ec2ActionActor },
+          { Key: `${tagPrefix}Reason`, Value: plan.reason.slice(0, 256) },
+          { Key: `${tagPrefix}At`, Value: new Date().toISOString() },
+        ],
+      })
+    );
+
+    const change = await sendAction(plan.action, target, false);
+
+    return {
+      instanceId,
+      region,
+      status: doneStatusByAction[plan.action],
+      previousState: change?.PreviousState?.Name,
+      currentState: change?.CurrentState?.Name,
+    };
+  } catch (error: any) {
+    return {
+      instanceId,
+      region,
+      status: "failed",
+      code: error?.name ?? error?.Code,
+      message: error?.message ?? "EC2 action failed",
+    };
+  }
+}
@@ -1,24 +1,20 @@
 import {
-  EC2Client,
   DescribeInstancesCommand,
+  DescribeVolumesCommand,
   type DescribeInstancesCommandOutput,
+  type DescribeVolumesCommandOutput,
+  type Filter,
   type Instance,
+  type Volume,
 } from "@aws-sdk/client-ec2";
 import {
-  CloudWatchClient,
   GetMetricDataCommand,
   type GetMetricDataCommandOutput,
   type MetricDataQuery,
 } from "@aws-sdk/client-cloudwatch";
 
-function getRegion(): string {
-  const region = process.env.AWS_REGION;
-  if (!region) throw new Error("Missing AWS_REGION in environment");
-  return region;
-}
-
-const ec2Client = new EC2Client({ region: getRegion() });
-const cloudWatchClient = new CloudWatchClient({ region: getRegion() });
+import { exclusionReason, type appliedIdlePolicy } from "./awsEc2IdlePolicy.js";
+import { defaultRegion, ec2ClientFor, cloudWatchClientFor } from "./awsRegions.js";
 
 export type ec2InstanceSummary = {
   instanceId: string;
@@ -27,14 +23,89 @@ export type ec2InstanceSummary = {
   state?: string;
   launchTime?: string;
   availabilityZone?: string;
+  publicIpAddress?: string;
+  // Every group on the instance's network interfaces, not just the primary one
+  securityGroupIds?: string[];
   tags?: Record<string, string>;
 };
 
+// Server-side filters for listing; every field given must match
+export type ec2InstanceFilters = {
+  // Tag key to accepted values; an empty list matches any value of that key
+  tags?: Record<string, string[]>;
+  instanceTypes?: string[];
+  availabilityZones?: string[];
+  vpcIds?: string[];
+  subnetIds?: string[];
+  // Matched against the Name tag; EC2 supports * and ? wildcards
+  nameGlob?: string;
+};
+
+export type ec2InstanceDetails = ec2InstanceSummary & {
+  privateIpAddress?: string;
+  privateDnsName?: string;
+  publicDnsName?: string;
+  vpcId?: string;
+  subnetId?: string;
+  imageId?: string;
+  platform?: string;
+  architecture?: string;
+  keyName?: string;
+  iamInstanceProfileArn?: string;
+  metadataOptions?: {
+    httpTokens?: string;
+    imdsv2Required: boolean;
+    httpEndpoint?: string;
+    httpPutResponseHopLimit?: number;
+  };
+  // EC2's free-text reason for the last state change, e.g. "User initiated (2025-01-02 ...)"
+  stateTransitionReason?: string;
+  stateReason?: { code?: string; message?: string };
+  securityGroups: Array<{ groupId?: string; groupName?: string }>;
+  networkInterfaces: Array<{
+    networkInterfaceId?: string;
+    deviceIndex?: number;
+    status?: string;
+    subnetId?: string;
+    macAddress?: string;
+    privateIpAddresses: string[];
+    publicIp?: string;
+    ipv6Addresses: string[];
+    securityGroupIds: string[];
+  }>;
+  volumes: Array<{
+    volumeId?: string;
+    deviceName?: string;
+    status?: string;
+    attachTime?: string;
+    deleteOnTermination?: boolean;
+    sizeGb?: number;
+    volumeType?: string;
+    encrypted?: boolean;
+  }>;
+  rootDeviceName?: string;
+  ebsOptimized?: boolean;
+  monitoring?: string;
+  hibernationConfigured: boolean;
+};
+
 export type idleMetrics = {
   cpuAvg?: number; // CPU percent
+  cpuP95?: number; // 95th percentile of the per-period p95 values
+  cpuMax?: number;
+  cpuBurstPeriods?: number; // periods whose maximum crossed the policy's cpuMaxThresholdPct
   netInBytesTotal?: number;
   netOutBytesTotal?: number;
 
+  ebsReadOpsTotal?: number;
+  ebsWriteOpsTotal?: number;
+  ebsReadBytesTotal?: number;
+  ebsWriteBytesTotal?: number;
+
+  // Burstable (T family) instances only
+  cpuCreditUsageTotal?: number;
+  cpuCreditUsageMax?: number; // busiest single period
+
   dataPointsCpu?: number;
   dataPointsNetIn?: number;
   dataPointsNetOut?: number;
@@ -45,6 +116,8 @@ export type idleCandidate = ec2InstanceSummary &
     idle: boolean;
     confidence: "HIGH" | "MEDIUM" | "LOW";
     reason: string[];
+    policy: string;
+    policySource: string;
   };
 
 function tagsToRecord(tags?: Instance["Tags"]): Record<string, string> {
@@ -66,18 +139,78 @@ function toIsoString(date?: Date): string | undefined {
   return date ? date.toISOString() : undefined;
 }
 
+function toInstanceSummary(inst: Instance & { InstanceId: string }): ec2InstanceSummary {
+  const tags = tagsToRecord(inst.Tags);
+  return {
+    instanceId: inst.InstanceId,
+    name: getNameTag(tags),
+    instanceType: inst.InstanceType,
+    state: inst.State?.Name,
+    launchTime: toIsoString(inst.LaunchTime),
+    availabilityZone: inst.Placement?.AvailabilityZone,
+    publicIpAddress: inst.PublicIpAddress,
+    securityGroupIds: [
+      ...new Set(
+        [
+          ...(inst.SecurityGroups ?? []),
+          ...(inst.NetworkInterfaces ?? []).flatMap((eni) => eni.Groups ?? []),
+        ]
+          .map((group) => group.GroupId)
+          .filter((groupId): groupId is string => Boolean(groupId))
+      ),
+    ],
+    tags,
+  };
+}
+
+function toEc2Filters(filters: ec2InstanceFilters): Filter[] {
+  const ec2Filters: Filter[] = [];
+  for (const [tagKey, values] of Object.entries(filters.tags ?? {})) {
+    ec2Filters.push(
+      values.length > 0
+        ? { Name: `tag:${tagKey}`, Values: values }
+        : { Name: "tag-key", Values: [tagKey] }
+    );
+  }
+  if (filters.instanceTypes?.length) {
+    ec2Filters.push({ Name: "instance-type", Values: filters.instanceTypes });
+  }
+  if (filters.availabilityZones?.length) {
+    ec2Filters.push({ Name: "availability-zone", Values: filters.availabilityZones });
+  }
+  if (filters.vpcIds?.length) ec2Filters.push({ Name: "vpc-id", Values: filters.vpcIds });
+  if (filters.subnetIds?.length) ec2Filters.push({ Name: "subnet-id", Values: filters.subnetIds });
+  if (filters.nameGlob) ec2Filters.push({ Name: "tag:Name", Values: [filters.nameGlob] });
+  return ec2Filters;
+}
+
 // Basic lookup without CloudWatch metrics or idle classification
 export async function listEc2InstancesSimple(
   maxInstances: number,
-  instanceStates: string[] = ["running"]
+  instanceStates: string[] = ["running"],
+  filters: ec2InstanceFilters = {},
+  region: string = defaultRegion()
+): Promise<ec2InstanceSummary[]> {
+  return await listEc2InstancesCapped(maxInstances, instanceStates, toEc2Filters(filters), region);
+}
+
+// Instances that carry a tag key, whatever its value
+export async function listEc2InstancesWithTagKey(
+  tagKey: string,
+  maxInstances: number,
+  instanceStates: string[]
 ): Promise<ec2InstanceSummary[]> {
-  return await listEc2InstancesCapped(maxInstances, instanceStates);
+  return await listEc2InstancesCapped(maxInstances, instanceStates, [
+    { Name: "tag-key", Values: [tagKey] },
+  ]);
 }
 
 // Shared helper with state filter and safe pagination
 async function listEc2InstancesCapped(
   maxInstances: number,
-  instanceStates: string[]
+  instanceStates: string[],
+  extraFilters: Filter[] = [],
+  region: string = defaultRegion()
 ): Promise<ec2InstanceSummary[]> {
   const instances: ec2InstanceSummary[] = [];
   let nextToken: string | undefined = undefined;
@@ -88,11 +221,11 @@ async function listEc2InstancesCapped(
     // AWS expects MaxResults between 5 and 1000
     const maxResults = Math.min(1000, Math.max(5, remaining));
 
-    const resp: DescribeInstancesCommandOutput = await ec2Client.send(
+    const resp: DescribeInstancesCommandOutput = await ec2ClientFor(region).send(
       new DescribeInstancesCommand({
         NextToken: nextToken,
         MaxResults: maxResults,
-        Filters: [{ Name: "instance-state-name", Values: instanceStates }],
+        Filters: [{ Name: "instance-state-name", Values: instanceStates }, ...extraFilters],
       })
     );
 
@@ -100,16 +233,7 @@ async function listEc2InstancesCapped(
       for (const inst of reservation.Instances ?? []) {
         if (!inst.InstanceId) continue;
 
-        const tags = tagsToRecord(inst.Tags);
-        instances.push({
-          instanceId: inst.InstanceId,
-          name: getNameTag(tags),
-          instanceType: inst.InstanceType,
-          state: inst.State?.Name,
-          launchTime: toIsoString(inst.LaunchTime),
-          availabilityZone: inst.Placement?.AvailabilityZone,
-          tags,
-        });
+        instances.push(toInstanceSummary({ ...inst, InstanceId: inst.InstanceId }));
 
         if (instances.length >= maxInstances) break;
       }
@@ -123,12 +247,141 @@ async function listEc2InstancesCapped(
   return instances;
 }
 
+// Looks up specific instances in any state. IDs EC2 does not know are left out.
+export async function describeEc2Instances(
+  instanceIds: string[],
+  region: string = defaultRegion()
+): Promise<Array<ec2InstanceSummary & { hibernationConfigured: boolean }>> {
+  const instances: Array<ec2InstanceSummary & { hibernationConfigured: boolean }> = [];
+  if (instanceIds.length === 0) return instances;
+
+  // Filtering by instance-id (rather than InstanceIds) skips unknown IDs instead of failing
+  let nextToken: string | undefined = undefined;
+  do {
+    const resp: DescribeInstancesCommandOutput = await ec2ClientFor(region).send(
+      new DescribeInstancesCommand({
+        NextToken: nextToken,
+        Filters: [{ Name: "instance-id", Values: instanceIds }],
+      })
+    );
+
+    for (const reservation of resp.Reservations ?? []) {
+      for (const inst of reservation.Instances ?? []) {
+        if (!inst.InstanceId) continue;
+        instances.push({
+          ...toInstanceSummary({ ...inst, InstanceId: inst.InstanceId }),
+          hibernationConfigured: inst.HibernationOptions?.Configured === true,
+        });
+      }
+    }
+
+    nextToken = resp.NextToken;
+  } while (nextToken);
+
+  return instances;
+}
+
+export async function getEc2InstanceDetails(
+  instanceId: string,
+  region: string = defaultRegion()
+): Promise<ec2InstanceDetails> {
+  const ec2Client = ec2ClientFor(region);
+  const resp: DescribeInstancesCommandOutput = await ec2Client.send(
+    new DescribeInstancesCommand({ Filters: [{ Name: "instance-id", Values: [instanceId] }] })
+  );
+  const inst = resp.Reservations?.flatMap((reservation) => reservation.Instances ?? [])[0];
+  if (!inst?.InstanceId) {
+    const error = new Error(`No EC2 instance ${instanceId} exists in ${region}.`);
+    error.name = "Ec2InstanceNotFound";
+    throw error;
+  }
+
+  // Sizes and types live on the volumes, not the block device mappings
+  const volumeIds = (inst.BlockDeviceMappings ?? [])
+    .map((mapping) => mapping.Ebs?.VolumeId)
+    .filter((volumeId): volumeId is string => Boolean(volumeId));
+  const volumesById = new Map<string, Volume>();
+  if (volumeIds.length > 0) {
+    const volumesResp: DescribeVolumesCommandOutput = await ec2Client.send(
+      new DescribeVolumesCommand({ Filters: [{ Name: "volume-id", Values: volumeIds }] })
+    );
+    for (const volume of volumesResp.Volumes ?? []) {
+      if (volume.VolumeId) volumesById.set(volume.VolumeId, volume);
+    }
+  }
+
+  const httpTokens = inst.MetadataOptions?.HttpTokens;
+  return {
+    ...toInstanceSummary({ ...inst, InstanceId: inst.InstanceId }),
+    privateIpAddress: inst.PrivateIpAddress,
+    privateDnsName: inst.PrivateDnsName || undefined,
+    publicDnsName: inst.PublicDnsName || undefined,
+    vpcId: inst.VpcId,
+    subnetId: inst.SubnetId,
+    imageId: inst.ImageId,
+    platform: inst.PlatformDetails ?? inst.Platform,
+    architecture: inst.Architecture,
+    keyName: inst.KeyName,
+    iamInstanceProfileArn: inst.IamInstanceProfile?.Arn,
+    metadataOptions: inst.MetadataOptions && {
+      httpTokens,
+      imdsv2Required: httpTokens === "required",
+      httpEndpoint: inst.MetadataOptions.HttpEndpoint,
+      httpPutResponseHopLimit: inst.MetadataOptions.HttpPutResponseHopLimit,
+    },
+    stateTransitionReason: inst.StateTransitionReason || undefined,
+    stateReason: inst.StateReason && {
+      code: inst.StateReason.Code,
+      message: inst.StateReason.Message,
+    },
+    securityGroups: (inst.SecurityGroups ?? []).map((group) => ({
+      groupId: group.GroupId,
+      groupName: group.GroupName,
+    })),
+    networkInterfaces: (inst.NetworkInterfaces ?? []).map((eni) => ({
+      networkInterfaceId: eni.NetworkInterfaceId,
+      deviceIndex: eni.Attachment?.DeviceIndex,
+      status: eni.Status,
+      subnetId: eni.SubnetId,
+      macAddress: eni.MacAddress,
+      privateIpAddresses: (eni.PrivateIpAddresses ?? [])
+        .map((address) => address.PrivateIpAddress)
+        .filter((address): address is string => Boolean(address)),
+      publicIp: eni.Association?.PublicIp,
+      ipv6Addresses: (eni.Ipv6Addresses ?? [])
+        .map((address) => address.Ipv6Address)
+        .filter((address): address is string => Boolean(address)),
+      securityGroupIds: (eni.Groups ?? [])
+        .map((group) => group.GroupId)
+        .filter((groupId): groupId is string => Boolean(groupId)),
+    })),
+    volumes: (inst.BlockDeviceMappings ?? []).map((mapping) => {
+      const volume = mapping.Ebs?.VolumeId ? volumesById.get(mapping.Ebs.VolumeId) : undefined;
+      return {
+        volumeId: mapping.Ebs?.VolumeId,
+        deviceName: mapping.DeviceName,
+        status: mapping.Ebs?.Status,
+        attachTime: toIsoString(mapping.Ebs?.AttachTime),
+        deleteOnTermination: mapping.Ebs?.DeleteOnTermination,
+        sizeGb: volume?.Size,
+        volumeType: volume?.VolumeType,
+        encrypted: volume?.Encrypted,
+      };
+    }),
+    rootDeviceName: inst.RootDeviceName,
+    ebsOptimized: inst.EbsOptimized,
+    monitoring: inst.Monitoring?.State,
+    hibernationConfigured: inst.HibernationOptions?.Configured === true,
+  };
+}
+
 // Idle detection helpers
 
 export async function listRunningInstancesCapped(
-  maxInstances: number
+  maxInstances: number,
+  region: string = defaultRegion()
 ): Promise<ec2InstanceSummary[]> {
-  return await listEc2InstancesCapped(maxInstances, ["running"]);
+  return await listEc2InstancesCapped(maxInstances, ["running"], [], region);
 }
 
 function safeId(prefix: string, idx: number): string {
@@ -146,69 +399,90 @@ function sum(values: number[]): number | undefined {
   return values.reduce((a, b) => a + b, 0);
 }
 
+function maximum(values: number[]): number | undefined {
+  if (!values.length) return undefined;
+  return values.reduce((a, b) => Math.max(a, b));
+}
+
+// Nearest-rank percentile
+function percentile(values: number[], pct: number): number | undefined {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((pct / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function isBurstableType(instanceType?: string): boolean {
+  return typeof instanceType === "string" && /^t\d[a-z]*\./.test(instanceType);
+}
+
 type metricAggregation = {
   cpuAvg?: number;
   cpuCount?: number;
+  cpuP95?: number;
+  cpuMaxValues?: number[];
   netInTotal?: number;
   netInCount?: number;
   netOutTotal?: number;
   netOutCount?: number;
+  ebsReadOps?: number;
+  ebsWriteOps?: number;
+  ebsReadBytes?: number;
+  ebsWriteBytes?: number;
+  creditTotal?: number;
+  creditMax?: number;
+};
+
+// Query id prefix -> metric and statistic. Ids must start with a lowercase letter.
+const idleMetricQueries: Record<
+  string,
+  { metricName: string; stat: string; burstableOnly?: boolean }
+> = {
+  cpu: { metricName: "CPUUtilization", stat: "Average" },
+  cpup: { metricName: "CPUUtilization", stat: "p95" },
+  cpux: { metricName: "CPUUtilization", stat: "Maximum" },
+  ni: { metricName: "NetworkIn", stat: "Sum" },
+  no: { metricName: "NetworkOut", stat: "Sum" },
+  ebsro: { metricName: "EBSReadOps", stat: "Sum" },
+  ebswo: { metricName: "EBSWriteOps", stat: "Sum" },
+  ebsrb: { metricName: "EBSReadBytes", stat: "Sum" },
+  ebswb: { metricName: "EBSWriteBytes", stat: "Sum" },
+  cc: { metricName: "CPUCreditUsage", stat: "Sum", burstableOnly: true },
 };
 
 export async function getIdleMetricsForInstances(
-  instanceIds: string[],
+  instances: ec2InstanceSummary[],
   lookbackDays: number,
-  periodSeconds: number
+  periodSeconds: number,
+  cpuMaxThresholdPct: number,
+  region: string = defaultRegion()
 ): Promise<Record<string, idleMetrics>> {
   const endTime = new Date();
   const startTime = new Date(
     endTime.getTime() - lookbackDays * 24 * 60 * 60 * 1000
   );
 
+  const instanceIds = instances.map((instance) => instance.instanceId);
   const metricQueries: MetricDataQuery[] = [];
 
-  instanceIds.forEach((instanceId, index) => {
-    metricQueries.push({
-      Id: safeId("cpu", index),
-      ReturnData: true,
-      MetricStat: {
-        Metric: {
-          Namespace: "AWS/EC2",
-          MetricName: "CPUUtilization",
-          Dimensions: [{ Name: "InstanceId", Value: instanceId }],
-        },
-        Period: periodSeconds,
-        Stat: "Average",
-      },
-    });
-
-    metricQueries.push({
-      Id: safeId("ni", index),
-      ReturnData: true,
-      MetricStat: {
-        Metric: {
-          Namespace: "AWS/EC2",
-          MetricName: "NetworkIn",
-          Dimensions: [{ Name: "InstanceId", Value: instanceId }],
+  instances.forEach((instance, index) => {
+    for (const [prefix, query] of Object.entries(idleMetricQueries)) {
+      if (query.burstableOnly && !isBurstableType(instance.instanceType)) continue;
+
+      metricQueries.push({
+        Id: safeId(prefix, index),
+        ReturnData: true,
+        MetricStat: {
+          Metric: {
+            Namespace: "AWS/EC2",
+            MetricName: query.metricName,
+            Dimensions: [{ Name: "InstanceId", Value: instance.instanceId }],
+          },
+          Period: periodSeconds,
+          Stat: query.stat,
         },
-        Period: periodSeconds,
-        Stat: "Sum",
-      },
-    });
-
-    metricQueries.push({
-      Id: safeId("no", index),
-      ReturnData: true,
-      MetricStat: {
-        Metric: {
-          Namespace: "AWS/EC2",
-          MetricName: "NetworkOut",
-          Dimensions: [{ Name: "InstanceId", Value: instanceId }],
-        },
-        Period: periodSeconds,
-        Stat: "Sum",
-      },
-    });
+      });
+    }
   });
 
   // CloudWatch GetMetricData allows up to 500 queries per request
@@ -218,20 +492,14 @@ export async function getIdleMetricsForInstances(
     queryChunks.push(metricQueries.slice(i, i + maxQueriesPerCall));
   }
 
-  const aggregationByInstance: Record<string, metricAggregation> = {};
-
-  function ensureAggregation(instanceId: string): metricAggregation {
-    if (!aggregationByInstance[instanceId]) aggregationByInstance[instanceId] = {};
-    return aggregationByInstance[instanceId];
-  }
-
-  const indexToInstanceId = instanceIds;
+  // Long windows come back over several pages, so gather every page before aggregating
+  const valuesByQueryId: Record<string, number[]> = {};
 
   for (const chunk of queryChunks) {
     let nextToken: string | undefined = undefined;
 
     do {
-      const resp: GetMetricDataCommandOutput = await cloudWatchClient.send(
+      const resp: GetMetricDataCommandOutput = await cloudWatchClientFor(region).send(
         new GetMetricDataCommand({
           StartTime: startTime,
           EndTime: endTime,
@@ -247,32 +515,59 @@ export async function getIdleMetricsForInstances(
           (v: number | undefined): v is number =>
             typeof v === "number" && Number.isFinite(v)
         );
+        (valuesByQueryId[queryId] ??= []).push(...values);
+      }
 
-        const match = queryId.match(/^(cpu|ni|no)(\d+)$/);
-        if (!match) continue;
-
-        const metricKind = match[1];
-        const idx = Number(match[2]);
+      nextToken = resp.NextToken;
+    } while (nextToken);
+  }
 
-        if (!Number.isFinite(idx) || idx < 0 || idx >= indexToInstanceId.length) continue;
+  const aggregationByInstance: Record<string, metricAggregation> = {};
 
-        const instanceId = indexToInstanceId[idx];
-        const agg = ensureAggregation(instanceId);
+  function ensureAggregation(instanceId: string): metricAggregation {
+    if (!aggregationByInstance[instanceId]) aggregationByInstance[instanceId] = {};
+    return aggregationByInstance[instanceId];
+  }
 
-        if (metricKind === "cpu") {
-          agg.cpuAvg = average(values);
-          agg.cpuCount = values.length;
-        } else if (metricKind === "ni") {
-          agg.netInTotal = sum(values);
-          agg.netInCount = values.length;
-        } else if (metricKind === "no") {
-          agg.netOutTotal = sum(values);
-          agg.netOutCount = values.length;
-        }
-      }
+  const indexToInstanceId = instanceIds;
 
-      nextToken = resp.NextToken;
-    } while (nextToken);
+  for (const [queryId, values] of Object.entries(valuesByQueryId)) {
+    const match = queryId.match(/^([a-z]+)(\d+)$/);
+    if (!match) continue;
+
+    const metricKind = match[1];
+    const idx = Number(match[2]);
+
+    if (!Number.isFinite(idx) || idx < 0 || idx >= indexToInstanceId.length) continue;
+
+    const instanceId = indexToInstanceId[idx];
+    const agg = ensureAggregation(instanceId);
+
+    if (metricKind === "cpu") {
+      agg.cpuAvg = average(values);
+      agg.cpuCount = values.length;
+    } else if (metricKind === "cpup") {
+      agg.cpuP95 = percentile(values, 95);
+    } else if (metricKind === "cpux") {
+      agg.cpuMaxValues = values;
+    } else if (metricKind === "ni") {
+      agg.netInTotal = sum(values);
+      agg.netInCount = values.length;
+    } else if (metricKind === "no") {
+      agg.netOutTotal = sum(values);
+      agg.netOutCount = values.length;
+    } else if (metricKind === "ebsro") {
+      agg.ebsReadOps = sum(values);
+    } else if (metricKind === "ebswo") {
+      agg.ebsWriteOps = sum(values);
+    } else if (metricKind === "ebsrb") {
+      agg.ebsReadBytes = sum(values);
+    } else if (metricKind === "ebswb") {
+      agg.ebsWriteBytes = sum(values);
+    } else if (metricKind === "cc") {
+      agg.creditTotal = sum(values);
+      agg.creditMax = maximum(values);
+    }
   }
 
   const metricsByInstanceId: Record<string, idleMetrics> = {};
@@ -281,8 +576,17 @@ export async function getIdleMetricsForInstances(
     const agg = aggregationByInstance[instanceId] ?? {};
     metricsByInstanceId[instanceId] = {
       cpuAvg: agg.cpuAvg,
+      cpuP95: agg.cpuP95,
+      cpuMax: maximum(agg.cpuMaxValues ?? []),
+      cpuBurstPeriods: agg.cpuMaxValues?.filter((value) => value > cpuMaxThresholdPct).length,
       netInBytesTotal: agg.netInTotal,
       netOutBytesTotal: agg.netOutTotal,
+      ebsReadOpsTotal: agg.ebsReadOps,
+      ebsWriteOpsTotal: agg.ebsWriteOps,
+      ebsReadBytesTotal: agg.ebsReadBytes,
+      ebsWriteBytesTotal: agg.ebsWriteBytes,
+      cpuCreditUsageTotal: agg.creditTotal,
+      cpuCreditUsageMax: agg.creditMax,
       dataPointsCpu: agg.cpuCount,
       dataPointsNetIn: agg.netInCount,
       dataPointsNetOut: agg.netOutCount,
@@ -292,22 +596,77 @@ export async function getIdleMetricsForInstances(
   return metricsByInstanceId;
 }
 
+// Fetches metrics and classifies each instance under the policy picked for it. Policies
+// can use different periods and burst levels, so metrics are fetched once per pair.
+export async function detectIdleInstances(
+  instances: ec2InstanceSummary[],
+  lookbackDays: number,
+  policyFor: (instance: ec2InstanceSummary) => appliedIdlePolicy,
+  region: string = defaultRegion()
+): Promise<idleCandidate[]> {
+  const policyByInstanceId = new Map(
+    instances.map((instance) => [instance.instanceId, policyFor(instance)])
+  );
+
+  const instancesByMetricSettings = new Map<string, ec2InstanceSummary[]>();
+  for (const instance of instances) {
+    const applied = policyByInstanceId.get(instance.instanceId)!;
+    const settingsKey = `${applied.periodSeconds}:${applied.cpuMaxThresholdPct}`;
+    const group = instancesByMetricSettings.get(settingsKey) ?? [];
+    group.push(instance);
+    instancesByMetricSettings.set(settingsKey, group);
+  }
+
+  const metricsByInstanceId: Record<string, idleMetrics> = {};
+  for (const group of instancesByMetricSettings.values()) {
+    const applied = policyByInstanceId.get(group[0].instanceId)!;
+    Object.assign(
+      metricsByInstanceId,
+      await getIdleMetricsForInstances(
+        group,
+        lookbackDays,
+        applied.periodSeconds,
+        applied.cpuMaxThresholdPct,
+        region
+      )
+    );
+  }
+
+  return instances.map((instance) =>
+    classifyIdle(
+      instance,
+      metricsByInstanceId[instance.instanceId] ?? {},
+      policyByInstanceId.get(instance.instanceId)!
+    )
+  );
+}
+
 export function classifyIdle(
   inst: ec2InstanceSummary,
   metrics: idleMetrics,
-  cpuThresholdPct: number,
-  netTotalThresholdBytes: number,
-  minDataPoints: number,
-  excludeTagKeys: string[]
+  policy: appliedIdlePolicy
 ): idleCandidate {
+  const {
+    cpuThresholdPct,
+    cpuP95ThresholdPct,
+    cpuMaxThresholdPct,
+    maxBurstPeriods,
+    netTotalThresholdBytes,
+    diskTotalThresholdBytes,
+    minDataPoints,
+  } = policy;
   const reasons: string[] = [];
 
-  const tags = inst.tags ?? {};
-  const isExcludedByTag = excludeTagKeys.some((tagKey) => tagKey in tags);
+  reasons.push(
+    `Policy: ${policy.name} (${policy.source}${
+      policy.overridden.length ? `; overridden: ${policy.overridden.join(", ")}` : ""
+    })`
+  );
 
-  if (isExcludedByTag) {
-    reasons.push(`Excluded (has one of these tag keys): ${excludeTagKeys.join(", ")}`);
-  }
+  const excluded = exclusionReason(inst.tags ?? {}, policy);
+  const isExcludedByTag = excluded !== undefined;
+
+  if (excluded) reasons.push(`Excluded (${excluded})`);
 
   const cpuPoints = metrics.dataPointsCpu ?? 0;
   const netInPoints = metrics.dataPointsNetIn ?? 0;
@@ -332,18 +691,66 @@ export function classifyIdle(
   const networkLooksIdle =
     Number.isFinite(netTotalBytes) && netTotalBytes <= netTotalThresholdBytes;
 
+  // A low average can hide a busy nightly job, so the upper percentile and repeated
+  // bursts count against idleness too. Missing values do not block a verdict.
+  const cpuP95LooksIdle =
+    typeof metrics.cpuP95 !== "number" || metrics.cpuP95 <= cpuP95ThresholdPct;
+  const burstPeriods = metrics.cpuBurstPeriods ?? 0;
+  const burstsRecur = burstPeriods > maxBurstPeriods;
+
+  // These only lower confidence: a one-off spike or steady log writes are common on idle hosts
+  const hasCpuSpike = typeof metrics.cpuMax === "number" && metrics.cpuMax > cpuMaxThresholdPct;
+
+  const hasDiskMetrics =
+    metrics.ebsReadBytesTotal !== undefined || metrics.ebsWriteBytesTotal !== undefined;
+  const diskTotalBytes = (metrics.ebsReadBytesTotal ?? 0) + (metrics.ebsWriteBytesTotal ?? 0);
+  const diskLooksBusy = hasDiskMetrics && diskTotalBytes > diskTotalThresholdBytes;
+
+  // One credit is one vCPU at 100% for a minute; more than cpuP95ThresholdPct of a vCPU
+  // for a whole period means the instance was bursting
+  const creditBurstThreshold = ((policy.periodSeconds / 60) * cpuP95ThresholdPct) / 100;
+  const creditsShowBurst =
+    typeof metrics.cpuCreditUsageMax === "number" &&
+    metrics.cpuCreditUsageMax > creditBurstThreshold;
+
   reasons.push(
     `CPU avg: ${metrics.cpuAvg?.toFixed(2) ?? "N/A"}% (threshold ${cpuThresholdPct}%)`
   );
+  reasons.push(
+    `CPU p95: ${metrics.cpuP95?.toFixed(2) ?? "N/A"}% (threshold ${cpuP95ThresholdPct}%)`
+  );
+  reasons.push(
+    `CPU max: ${metrics.cpuMax?.toFixed(2) ?? "N/A"}% in ${burstPeriods} period(s) above ${cpuMaxThresholdPct}% (allowed ${maxBurstPeriods})`
+  );
   reasons.push(
     `Network total: ${Math.round(netTotalBytes)} bytes (threshold ${netTotalThresholdBytes} bytes)`
   );
+  reasons.push(
+    hasDiskMetrics
+      ? `EBS I/O: ${Math.round(diskTotalBytes)} bytes, ${Math.round(
+          (metrics.ebsReadOpsTotal ?? 0) + (metrics.ebsWriteOpsTotal ?? 0)
+        )} ops (threshold ${diskTotalThresholdBytes} bytes)`
+      : "EBS I/O: N/A (no EBS metrics for this instance)"
+  );
+  if (metrics.cpuCreditUsageTotal !== undefined) {
+    reasons.push(
+      `CPU credits: ${metrics.cpuCreditUsageTotal.toFixed(1)} used, busiest period ${
+        metrics.cpuCreditUsageMax?.toFixed(1) ?? "N/A"
+      } (burst above ${creditBurstThreshold.toFixed(1)})`
+    );
+  }
+
+  if (burstsRecur) reasons.push("Recurring CPU bursts, likely scheduled work.");
+  if (hasCpuSpike && !burstsRecur) reasons.push("Occasional CPU spike, check what ran.");
+  if (diskLooksBusy) reasons.push("Disk activity is above the policy threshold.");
+  if (creditsShowBurst) reasons.push("Burstable instance spent CPU credits in bursts.");
 
-  const idle = !isExcludedByTag && hasEnoughMetricCoverage && cpuLooksIdle && networkLooksIdle;
+  const looksIdle = cpuLooksIdle && cpuP95LooksIdle && !burstsRecur && networkLooksIdle;
+  const idle = !isExcludedByTag && hasEnoughMetricCoverage && looksIdle;
 
   let confidence: idleCandidate["confidence"] = "LOW";
   if (isExcludedByTag) confidence = "LOW";
-  else if (hasEnoughMetricCoverage && cpuLooksIdle && networkLooksIdle) confidence = "HIGH";
+  else if (idle && !hasCpuSpike && !diskLooksBusy && !creditsShowBurst) confidence = "HIGH";
   else if (hasEnoughMetricCoverage) confidence = "MEDIUM";
 
   return {
@@ -352,5 +759,7 @@ export function classifyIdle(
     idle,
     confidence,
     reason: reasons,
+    policy: policy.name,
+    policySource: policy.source,
   };
 }
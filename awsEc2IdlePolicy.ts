@@ -0,0 +1,173 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+// Named idle-detection policies for EC2, loaded from the JSON file in EC2_IDLE_POLICY_FILE.
+//
+// {
+//   "defaultPolicy": "standard",
+//   "policies": {
+//     "dev": { "cpuThresholdPct": 5, "netTotalThresholdBytes": 209715200 },
+//     "batch": { "periodSeconds": 300, "minDataPoints": 288, "excludeTags": { "Role": ["scheduler"] } }
+//   },
+//   "selectors": [
+//     { "tag": "Environment", "values": ["dev", "sandbox"], "policy": "dev" },
+//     { "tag": "Workload", "values": ["batch"], "policy": "batch" }
+//   ]
+// }
+//
+// Every policy starts from the built-in "standard" policy, so a file only lists what
+// differs. Selectors are tried in order and the first matching tag wins; instances
+// that match none use defaultPolicy.
+
+const idlePolicyFields = {
+  cpuThresholdPct: z.number().min(0).max(100),
+  cpuP95ThresholdPct: z.number().min(0).max(100),
+  // Periods whose maximum CPU exceeds cpuMaxThresholdPct count as bursts
+  cpuMaxThresholdPct: z.number().min(0).max(100),
+  maxBurstPeriods: z.number().int().min(0),
+  netTotalThresholdBytes: z.number().int().min(0),
+  diskTotalThresholdBytes: z.number().int().min(0),
+  periodSeconds: z.number().int().min(60).max(86400).multipleOf(60),
+  minDataPoints: z.number().int().min(1).max(10000),
+  excludeTagKeys: z.array(z.string().min(1)),
+  excludeTags: z.record(z.array(z.string())),
+};
+
+const idlePolicySchema = z.object(idlePolicyFields);
+export const idlePolicyOverridesSchema = idlePolicySchema.partial();
+
+const idlePolicyFileSchema = z.object({
+  defaultPolicy: z.string().min(1).optional(),
+  policies: z.record(idlePolicyOverridesSchema).optional().default({}),
+  selectors: z
+    .array(
+      z.object({
+        tag: z.string().min(1),
+        values: z.array(z.string()).optional(),
+        policy: z.string().min(1),
+      })
+    )
+    .optional()
+    .default([]),
+});
+
+export type idlePolicy = z.infer<typeof idlePolicySchema>;
+export type idlePolicyOverrides = z.infer<typeof idlePolicyOverridesSchema>;
+
+export type idlePolicyConfig = {
+  defaultPolicy: string;
+  policies: Record<string, idlePolicy>;
+  selectors: Array<{ tag: string; values?: string[]; policy: string }>;
+};
+
+export type appliedIdlePolicy = idlePolicy & {
+  name: string;
+  // How the policy was picked: "requested", "tag:<Key>=<Value>" or "default"
+  source: string;
+  overridden: string[];
+};
+
+export const standardIdlePolicy: idlePolicy = {
+  cpuThresholdPct: 2,
+  cpuP95ThresholdPct: 10,
+  cpuMaxThresholdPct: 80,
+  maxBurstPeriods: 2,
+  netTotalThresholdBytes: 50 * 1024 * 1024,
+  diskTotalThresholdBytes: 1024 * 1024 * 1024,
+  periodSeconds: 3600,
+  minDataPoints: 24,
+  excludeTagKeys: ["DoNotStop", "Critical"],
+  excludeTags: {},
+};
+
+export function loadIdlePolicies(filePath?: string): idlePolicyConfig {
+  const builtIn: idlePolicyConfig = {
+    defaultPolicy: "standard",
+    policies: { standard: standardIdlePolicy },
+    selectors: [],
+  };
+  if (!filePath || filePath.trim().length === 0) return builtIn;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath.trim(), "utf8"));
+  } catch (error: any) {
+    throw new Error(
+      `Could not read EC2_IDLE_POLICY_FILE "${filePath}": ${error?.message ?? error}`
+    );
+  }
+
+  const parsed = idlePolicyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid EC2_IDLE_POLICY_FILE "${filePath}": ${parsed.error.message}`);
+  }
+
+  const policies: Record<string, idlePolicy> = { ...builtIn.policies };
+  for (const [name, overrides] of Object.entries(parsed.data.policies)) {
+    policies[name] = { ...standardIdlePolicy, ...overrides };
+  }
+
+  const defaultPolicy = parsed.data.defaultPolicy ?? builtIn.defaultPolicy;
+  const unknown = [defaultPolicy, ...parsed.data.selectors.map((selector) => selector.policy)]
+    .filter((name) => !policies[name]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid EC2_IDLE_POLICY_FILE "${filePath}": unknown policy ${[...new Set(unknown)].join(", ")}`
+    );
+  }
+
+  return { defaultPolicy, policies, selectors: parsed.data.selectors };
+}
+
+export function resolveIdlePolicy(
+  config: idlePolicyConfig,
+  tags: Record<string, string>,
+  requestedPolicy?: string,
+  overrides: idlePolicyOverrides = {}
+): appliedIdlePolicy {
+  let name = config.defaultPolicy;
+  let source = "default";
+
+  if (requestedPolicy) {
+    name = requestedPolicy;
+    source = "requested";
+  } else {
+    const selector = config.selectors.find(
+      (candidate) =>
+        candidate.tag in tags &&
+        (!candidate.values || candidate.values.includes(tags[candidate.tag]))
+    );
+    if (selector) {
+      name = selector.policy;
+      source = `tag:${selector.tag}=${tags[selector.tag]}`;
+    }
+  }
+
+  const policy = config.policies[name];
+  if (!policy) {
+    const error = new Error(
+      `Unknown idle policy "${name}". Available policies: ${Object.keys(config.policies).join(", ")}.`
+    );
+    error.name = "UnknownIdlePolicy";
+    throw error;
+  }
+
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as idlePolicyOverrides;
+  return { ...policy, ...defined, name, source, overridden: Object.keys(defined) };
+}
+
+// Describes why the policy's exclusion tags rule an instance out, or undefined if they do not
+export function exclusionReason(
+  tags: Record<string, string>,
+  policy: idlePolicy
+): string | undefined {
+  if (policy.excludeTagKeys.some((tagKey) => tagKey in tags)) {
+    return `has one of these tag keys: ${policy.excludeTagKeys.join(", ")}`;
+  }
+  const match = Object.entries(policy.excludeTags).find(
+    ([tagKey, values]) => tagKey in tags && values.includes(tags[tagKey])
+  );
+  return match ? `tag ${match[0]}=${tags[match[0]]}` : undefined;
+}
@@ -0,0 +1,392 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import {
+  GetMetricDataCommand,
+  ListMetricsCommand,
+  type GetMetricDataCommandOutput,
+  type ListMetricsCommandOutput,
+  type Metric,
+  type MetricDataQuery,
+} from "@aws-sdk/client-cloudwatch";
+
+import type { ec2InstanceSummary, idleMetrics } from "./awsEc2Idle.js";
+import { ec2HourlyRate, type PriceCatalog } from "./awsPricing.js";
+import { defaultRegion, cloudWatchClientFor } from "./awsRegions.js";
+
+// Rightsizing sizes each instance to its p95 CPU and memory plus headroom, using the
+// instance specs in assets/ec2-instance-types.json and the region's Linux on-demand
+// rates from the price catalog.
+// Memory comes from the CloudWatch agent when it publishes to CWAgent; without it
+// only CPU is known and recommendations are more cautious.
+
+const instanceTypeSchema = z.object({
+  vcpu: z.number().positive(),
+  memoryGib: z.number().positive(),
+  arch: z.enum(["x86_64", "arm64"]),
+  burstable: z.boolean().optional(),
+});
+
+const catalogSchema = z.object({
+  version: z.string(),
+  instanceTypes: z.record(instanceTypeSchema),
+});
+
+// An override file may replace the version and add or patch single instance types
+const catalogOverrideSchema = catalogSchema.partial().extend({
+  instanceTypes: z.record(instanceTypeSchema.partial()).optional(),
+});
+
+export type Ec2InstanceTypeSpec = z.infer<typeof instanceTypeSchema>;
+type pricedSpec = Ec2InstanceTypeSpec & { hourly: number };
+export type Ec2Catalog = z.infer<typeof catalogSchema>;
+
+export type SizingOption = {
+  instanceType: string;
+  vcpu: number;
+  memoryGib: number;
+  hourly: number;
+  projectedCpuP95: number;
+  projectedMemoryP95?: number;
+  cpuHeadroomPct: number;
+  memoryHeadroomPct?: number;
+  monthlySavings: number;
+};
+
+export type RightsizingResult = {
+  instanceId: string;
+  name?: string;
+  instanceType?: string;
+  status: "oversized" | "right-sized" | "under-provisioned" | "unknown";
+  confidence: "HIGH" | "MEDIUM" | "LOW";
+  cpuP95?: number;
+  cpuMax?: number;
+  memoryP95?: number;
+  memorySource: "CWAgent" | "none";
+  currentHourly?: number;
+  recommendation?: SizingOption;
+  // Cheapest fit that keeps the current family, when the overall pick changes family
+  sameFamilyOption?: SizingOption;
+  reason: string[];
+};
+
+// Sizes so the projected p95 stays under these, leaving room for peaks
+const targetCpuP95Pct = 70;
+const targetMemoryP95Pct = 80;
+// Above these the instance is too small rather than too big
+const underProvisionedCpuP95Pct = 85;
+const underProvisionedMemoryP95Pct = 90;
+
+// Linux and Windows agent metric names
+const memoryMetricNames = ["mem_used_percent", "Memory % Committed Bytes In Use"];
+
+export function loadEc2Catalog(overridePath?: string): Ec2Catalog {
+  const bundled = JSON.parse(
+    readFileSync(new URL("./assets/ec2-instance-types.json", import.meta.url), "utf8")
+  );
+
+  let merged = bundled;
+  if (overridePath && overridePath.trim().length > 0) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(overridePath.trim(), "utf8"));
+    } catch (error: any) {
+      throw new Error(`Could not read EC2_CATALOG_FILE "${overridePath}": ${error?.message ?? error}`);
+    }
+
+    const override = catalogOverrideSchema.safeParse(raw);
+    if (!override.success) {
+      throw new Error(`Invalid EC2_CATALOG_FILE "${overridePath}": ${override.error.message}`);
+    }
+
+    const instanceTypes = { ...bundled.instanceTypes };
+    for (const [name, spec] of Object.entries(override.data.instanceTypes ?? {})) {
+      instanceTypes[name] = { ...(instanceTypes[name] ?? {}), ...spec };
+    }
+    merged = { ...bundled, ...override.data, instanceTypes };
+  }
+
+  const parsed = catalogSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new Error(`Invalid EC2 instance catalog: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+function familyOf(instanceType: string): string {
+  return instanceType.split(".")[0];
+}
+
+// Nearest-rank percentile
+function percentile(values: number[], pct: number): number | undefined {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((pct / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// The agent's dimensions depend on its config (ImageId, InstanceType, ...), so find the
+// exact metric for each instance before asking for data
+async function findMemoryMetrics(
+  instanceIds: Set<string>,
+  region: string
+): Promise<Map<string, Metric>> {
+  const metricByInstanceId = new Map<string, Metric>();
+
+  for (const metricName of memoryMetricNames) {
+    let nextToken: string | undefined = undefined;
+    do {
+      const resp: ListMetricsCommandOutput = await cloudWatchClientFor(region).send(
+        new ListMetricsCommand({
+          Namespace: "CWAgent",
+          MetricName: metricName,
+          Dimensions: [{ Name: "InstanceId" }],
+          NextToken: nextToken,
+        })
+      );
+
+      for (const metric of resp.Metrics ?? []) {
+        const instanceId = metric.Dimensions?.find((item) => item.Name === "InstanceId")?.Value;
+        if (!instanceId || !instanceIds.has(instanceId)) continue;
+
+        // Prefer the series with the fewest dimensions (the instance-wide one)
+        const existing = metricByInstanceId.get(instanceId);
+        if (!existing || (metric.Dimensions?.length ?? 0) < (existing.Dimensions?.length ?? 0)) {
+          metricByInstanceId.set(instanceId, metric);
+        }
+      }
+
+      nextToken = resp.NextToken;
+    } while (nextToken);
+  }
+
+  return metricByInstanceId;
+}
+
+// p95 memory used percent per instance, for instances that report it
+export async function getMemoryP95ForInstances(
+  instanceIds: string[],
+  lookbackDays: number,
+  periodSeconds: number,
+  region: string = defaultRegion()
+): Promise<Record<string, number>> {
+  const metricByInstanceId = await findMemoryMetrics(new Set(instanceIds), region);
+  const withMemory = instanceIds.filter((instanceId) => metricByInstanceId.has(instanceId));
+  if (withMemory.length === 0) return {};
+
+  const endTime = new Date();
+  const startTime = new Date(endTime.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+
+  const queries: MetricDataQuery[] = withMemory.map((instanceId, index) => ({
+    Id: `mem${index}`,
+    ReturnData: true,
+    MetricStat: {
+      Metric: metricByInstanceId.get(instanceId),
+      Period: periodSeconds,
+      Stat: "p95",
+    },
+  }));
+
+  const valuesByQueryId: Record<string, number[]> = {};
+  const maxQueriesPerCall = 450;
+  for (let i = 0; i < queries.length; i += maxQueriesPerCall) {
+    let nextToken: string | undefined = undefined;
+    do {
+      const resp: GetMetricDataCommandOutput = await cloudWatchClientFor(region).send(
+        new GetMetricDataCommand({
+          StartTime: startTime,
+          EndTime: endTime,
+          MetricDataQueries: queries.slice(i, i + maxQueriesPerCall),
+          NextToken: nextToken,
+        })
+      );
+      for (const result of resp.MetricDataResults ?? []) {
+        const values = (result.Values ?? []).filter((value) => Number.isFinite(value));
+        (valuesByQueryId[result.Id ?? ""] ??= []).push(...values);
+      }
+      nextToken = resp.NextToken;
+    } while (nextToken);
+  }
+
+  const memoryP95ByInstanceId: Record<string, number> = {};
+  withMemory.forEach((instanceId, index) => {
+    const p95 = percentile(valuesByQueryId[`mem${index}`] ?? [], 95);
+    if (p95 !== undefined) memoryP95ByInstanceId[instanceId] = p95;
+  });
+  return memoryP95ByInstanceId;
+}
+
+function sizingOption(
+  name: string,
+  spec: pricedSpec,
+  current: pricedSpec,
+  cpuP95: number,
+  memoryP95: number | undefined,
+  hoursPerMonth: number
+): SizingOption {
+  // Assumes a vCPU does the same work across families; newer generations are usually faster
+  const projectedCpuP95 = (cpuP95 * current.vcpu) / spec.vcpu;
+  const projectedMemoryP95 =
+    memoryP95 === undefined ? undefined : (memoryP95 * current.memoryGib) / spec.memoryGib;
+  return {
+    instanceType: name,
+    vcpu: spec.vcpu,
+    memoryGib: spec.memoryGib,
+    hourly: spec.hourly,
+    projectedCpuP95: round(projectedCpuP95),
+    projectedMemoryP95: projectedMemoryP95 === undefined ? undefined : round(projectedMemoryP95),
+    cpuHeadroomPct: round(100 - projectedCpuP95),
+    memoryHeadroomPct: projectedMemoryP95 === undefined ? undefined : round(100 - projectedMemoryP95),
+    monthlySavings: round((current.hourly - spec.hourly) * hoursPerMonth),
+  };
+}
+
+export function recommendRightsizing(
+  instance: ec2InstanceSummary,
+  metrics: idleMetrics,
+  memoryP95: number | undefined,
+  catalog: Ec2Catalog,
+  prices: PriceCatalog,
+  region: string,
+  minDataPoints: number
+): RightsizingResult {
+  const reasons: string[] = [];
+  const base = {
+    instanceId: instance.instanceId,
+    name: instance.name,
+    instanceType: instance.instanceType,
+    cpuP95: metrics.cpuP95,
+    cpuMax: metrics.cpuMax,
+    memoryP95: memoryP95 === undefined ? undefined : round(memoryP95),
+    memorySource: memoryP95 === undefined ? ("none" as const) : ("CWAgent" as const),
+  };
+
+  const priced = (name: string): pricedSpec | undefined => {
+    const spec = catalog.instanceTypes[name];
+    const hourly = ec2HourlyRate(prices, region, name);
+    return spec && hourly !== undefined ? { ...spec, hourly } : undefined;
+  };
+
+  const current = instance.instanceType ? priced(instance.instanceType) : undefined;
+  if (!current) {
+    reasons.push(
+      `Instance type ${instance.instanceType ?? "unknown"} has no spec or ${region} price in the catalogs.`
+    );
+    return { ...base, status: "unknown", confidence: "LOW", reason: reasons };
+  }
+
+  const cpuPoints = metrics.dataPointsCpu ?? 0;
+  if (metrics.cpuP95 === undefined || cpuPoints < minDataPoints) {
+    reasons.push(`Not enough CPU history (${cpuPoints} datapoints, need ${minDataPoints}).`);
+    return {
+      ...base,
+      currentHourly: current.hourly,
+      status: "unknown",
+      confidence: "LOW",
+      reason: reasons,
+    };
+  }
+
+  const cpuP95 = metrics.cpuP95;
+  reasons.push(
+    `CPU p95 ${cpuP95.toFixed(1)}% and max ${metrics.cpuMax?.toFixed(1) ?? "N/A"}% on ${current.vcpu} vCPU.`
+  );
+  reasons.push(
+    memoryP95 === undefined
+      ? "No CWAgent memory metrics, so memory is only allowed to shrink by half."
+      : `Memory p95 ${memoryP95.toFixed(1)}% of ${current.memoryGib} GiB.`
+  );
+
+  if (
+    cpuP95 > underProvisionedCpuP95Pct ||
+    (memoryP95 !== undefined && memoryP95 > underProvisionedMemoryP95Pct)
+  ) {
+    reasons.push("Utilization is high; consider a larger size instead.");
+    return {
+      ...base,
+      currentHourly: current.hourly,
+      status: "under-provisioned",
+      confidence: memoryP95 === undefined ? "MEDIUM" : "HIGH",
+      reason: reasons,
+    };
+  }
+
+  const requiredVcpu = (cpuP95 * current.vcpu) / targetCpuP95Pct;
+  const requiredMemoryGib =
+    memoryP95 === undefined
+      ? current.memoryGib / 2
+      : (memoryP95 * current.memoryGib) / targetMemoryP95Pct;
+
+  // Same architecture so the AMI still boots, and no move onto burstable types, which
+  // throttle sustained load once credits run out
+  const fits = Object.keys(catalog.instanceTypes)
+    .flatMap((name): Array<[string, pricedSpec]> => {
+      const spec = priced(name);
+      return spec ? [[name, spec]] : [];
+    })
+    .filter(
+      ([name, spec]) =>
+        name !== instance.instanceType &&
+        spec.arch === current.arch &&
+        (!spec.burstable || current.burstable) &&
+        spec.vcpu >= requiredVcpu &&
+        spec.memoryGib >= requiredMemoryGib &&
+        spec.hourly < current.hourly
+    )
+    .sort(([nameA, a], [nameB, b]) => a.hourly - b.hourly || nameA.localeCompare(nameB));
+
+  if (fits.length === 0) {
+    reasons.push("No cheaper type in the catalog keeps p95 under the headroom targets.");
+    return {
+      ...base,
+      currentHourly: current.hourly,
+      status: "right-sized",
+      confidence: memoryP95 === undefined ? "MEDIUM" : "HIGH",
+      reason: reasons,
+    };
+  }
+
+  const option = ([name, spec]: [string, pricedSpec]) =>
+    sizingOption(name, spec, current, cpuP95, memoryP95, prices.hoursPerMonth);
+
+  // A peak that would saturate the smaller type is a warning sign even when p95 fits, so
+  // prefer types that also absorb the peak
+  const peakFits = ([, spec]: [string, pricedSpec]) =>
+    metrics.cpuMax === undefined || (metrics.cpuMax * current.vcpu) / spec.vcpu <= 100;
+  const candidates = fits.some(peakFits) ? fits.filter(peakFits) : fits;
+  const peakSaturates = !peakFits(candidates[0]);
+
+  const recommendation = option(candidates[0]);
+  const family = familyOf(instance.instanceType!);
+  const sameFamilyFit = candidates.find(([name]) => familyOf(name) === family);
+  const sameFamilyOption =
+    sameFamilyFit && sameFamilyFit[0] !== candidates[0][0] ? option(sameFamilyFit) : undefined;
+
+  reasons.push(
+    `${recommendation.instanceType} keeps CPU p95 near ${recommendation.projectedCpuP95}%` +
+      (recommendation.projectedMemoryP95 !== undefined
+        ? ` and memory p95 near ${recommendation.projectedMemoryP95}%`
+        : "") +
+      ` (targets ${targetCpuP95Pct}% / ${targetMemoryP95Pct}%).`
+  );
+
+  if (peakSaturates) reasons.push("CPU peaks would saturate the smaller type.");
+
+  let confidence: RightsizingResult["confidence"] = "HIGH";
+  if (memoryP95 === undefined || peakSaturates) confidence = "MEDIUM";
+  if (memoryP95 === undefined && peakSaturates) confidence = "LOW";
+
+  return {
+    ...base,
+    currentHourly: current.hourly,
+    status: "oversized",
+    confidence,
+    recommendation,
+    sameFamilyOption,
+    reason: reasons,
+  };
+}
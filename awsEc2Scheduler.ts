@@ -0,0 +1,408 @@
+import {
+  CreateTagsCommand,
+  DeleteTagsCommand,
+  StartInstancesCommand,
+  StopInstancesCommand,
+} from "@aws-sdk/client-ec2";
+
+import { listEc2InstancesWithTagKey, type ec2InstanceSummary } from "./awsEc2Idle.js";
+import { defaultRegion, ec2ClientFor } from "./awsRegions.js";
+
+// Office-hours scheduling for instances that opt in with a tag such as
+// Schedule=weekdays-08-19-America/New_York (days, start hour, stop hour, IANA zone).
+// Days are weekdays, weekends, daily, or a "+" list like mon+wed+fri. Times are HH or
+// HHMM in the instance's zone; a start later than the stop runs overnight.
+//
+// The loop only acts when a start or stop time passes between two ticks, so someone
+// who starts a box at night by hand is not fought every few minutes. Holidays keep
+// instances off all day. SchedulePausedUntil=<ISO time> skips an instance until then.
+
+// Schedules cover AWS_REGION only: the loop lists and acts on instances there
+const ec2Client = ec2ClientFor(defaultRegion());
+
+export const scheduleTagKey = "Schedule";
+export const schedulePauseTagKey = "SchedulePausedUntil";
+
+export type ScheduleMode = "off" | "dry-run" | "live";
+
+export type ScheduleSettings = {
+  mode: ScheduleMode;
+  intervalSeconds: number;
+  // Local dates (YYYY-MM-DD) in each instance's own zone
+  holidays: Set<string>;
+};
+
+export type ParsedSchedule = {
+  days: number[]; // 0 = Sunday
+  startMinute: number;
+  stopMinute: number;
+  timeZone: string;
+};
+
+export type ScheduleAction = "start" | "stop";
+
+export type ScheduleLogEntry = {
+  at: string;
+  instanceId: string;
+  name?: string;
+  action: ScheduleAction;
+  schedule: string;
+  mode: "dry-run" | "live";
+  outcome: "done" | "would-do" | "failed";
+  code?: string;
+  message?: string;
+};
+
+const maxScheduledInstances = 500;
+const maxLogEntries = 500;
+
+const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const daySets: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6],
+};
+
+// Ticks write to the action log rather than the console; previewEc2Schedules reads it
+const actionLog: ScheduleLogEntry[] = [];
+let lastTickFailure: { at: string; message: string } | undefined;
+let schedulerStarted = false;
+
+function scheduleError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+export function loadScheduleSettings(
+  mode?: string,
+  intervalSeconds?: string,
+  holidays?: string
+): ScheduleSettings {
+  const resolvedMode = (mode?.trim() || "off") as ScheduleMode;
+  if (!["off", "dry-run", "live"].includes(resolvedMode)) {
+    throw new Error(`EC2_SCHEDULER_MODE must be off, dry-run or live (got "${mode}").`);
+  }
+
+  let interval = 300;
+  if (intervalSeconds && intervalSeconds.trim().length > 0) {
+    interval = Number(intervalSeconds.trim());
+    if (!Number.isInteger(interval) || interval < 60 || interval > 3600) {
+      throw new Error("EC2_SCHEDULER_INTERVAL_SECONDS must be a whole number between 60 and 3600.");
+    }
+  }
+
+  const dates = (holidays ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const badDate = dates.find((value) => !/^\d{4}-\d{2}-\d{2}$/.test(value));
+  if (badDate) {
+    throw new Error(`EC2_SCHEDULE_HOLIDAYS must be YYYY-MM-DD dates (got "${badDate}").`);
+  }
+
+  return { mode: resolvedMode, intervalSeconds: interval, holidays: new Set(dates) };
+}
+
+export function scheduleSettingsFromEnv(): ScheduleSettings {
+  return loadScheduleSettings(
+    process.env.EC2_SCHEDULER_MODE,
+    process.env.EC2_SCHEDULER_INTERVAL_SECONDS,
+    process.env.EC2_SCHEDULE_HOLIDAYS
+  );
+}
+
+function parseTime(value: string, allowMidnightEnd: boolean): number | undefined {
+  const match = value.match(/^(\d{2})(\d{2})?$/);
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? "0");
+  const total = hours * 60 + minutes;
+  if (minutes > 59 || total > (allowMidnightEnd ? 1440 : 1439)) return undefined;
+  return total;
+}
+
+export function parseScheduleTag(value: string): ParsedSchedule {
+  // Zone names can contain "-" (America/Port-au-Prince), so only the first three split
+  const [daysPart, startPart, stopPart, ...zoneParts] = value.trim().split("-");
+  const timeZone = zoneParts.join("-") || "UTC";
+
+  const days = daySets[daysPart?.toLowerCase()] ??
+    daysPart
+      ?.toLowerCase()
+      .split("+")
+      .map((day) => dayNames.indexOf(day));
+  if (!days || days.length === 0 || days.some((day) => day < 0)) {
+    throw scheduleError(
+      "InvalidSchedule",
+      `"${value}": days must be weekdays, weekends, daily or a list like mon+wed+fri.`
+    );
+  }
+
+  const startMinute = parseTime(startPart ?? "", false);
+  const stopMinute = parseTime(stopPart ?? "", true);
+  if (startMinute === undefined || stopMinute === undefined || startMinute === stopMinute) {
+    throw scheduleError(
+      "InvalidSchedule",
+      `"${value}": start and stop must be different HH or HHMM times, e.g. weekdays-08-19-UTC.`
+    );
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw scheduleError("InvalidSchedule", `"${value}": unknown time zone "${timeZone}".`);
+  }
+
+  return { days: [...new Set(days)], startMinute, stopMinute, timeZone };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: number, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+}
+
+// Local calendar date shifted by whole days, with its weekday
+function localDay(year: number, month: number, day: number, offsetDays = 0) {
+  const date = new Date(Date.UTC(year, month - 1, day + offsetDays));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+    iso: date.toISOString().slice(0, 10),
+  };
+}
+
+// UTC instant of a local wall-clock time. Two passes settle DST changes.
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minuteOfDay: number,
+  timeZone: string
+): number {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(instant, timeZone);
+    const local = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    );
+    return local - Math.floor(instant / 1000) * 1000;
+  };
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return wallClock - offsetAt(firstGuess);
+}
+
+export function desiredStateAt(
+  schedule: ParsedSchedule,
+  instant: number,
+  holidays: Set<string>
+): "running" | "stopped" {
+  const parts = zonedParts(instant, schedule.timeZone);
+  const minute = parts.hour * 60 + parts.minute;
+  const today = localDay(parts.year, parts.month, parts.day);
+  const isActive = (day: { weekday: number; iso: string }) =>
+    schedule.days.includes(day.weekday) && !holidays.has(day.iso);
+
+  if (schedule.startMinute < schedule.stopMinute) {
+    return isActive(today) && minute >= schedule.startMinute && minute < schedule.stopMinute
+      ? "running"
+      : "stopped";
+  }
+
+  // Overnight: the window opens on an active day and closes the next morning
+  const yesterday = localDay(parts.year, parts.month, parts.day, -1);
+  const running =
+    (isActive(today) && minute >= schedule.startMinute) ||
+    (isActive(yesterday) && minute < schedule.stopMinute);
+  return running ? "running" : "stopped";
+}
+
+export function nextScheduledActions(
+  schedule: ParsedSchedule,
+  from: number,
+  until: number,
+  holidays: Set<string>
+): Array<{ action: ScheduleAction; at: number }> {
+  const parts = zonedParts(from, schedule.timeZone);
+  const spanDays = Math.ceil((until - from) / 86_400_000) + 1;
+  const actions: Array<{ action: ScheduleAction; at: number }> = [];
+
+  for (let offset = -1; offset <= spanDays; offset++) {
+    const day = localDay(parts.year, parts.month, parts.day, offset);
+    for (const minuteOfDay of [schedule.startMinute, schedule.stopMinute]) {
+      const at = zonedTimeToUtc(day.year, day.month, day.day, minuteOfDay, schedule.timeZone);
+      if (at <= from || at > until) continue;
+
+      // Only times where the desired state actually flips are actions
+      const before = desiredStateAt(schedule, at - 1000, holidays);
+      const after = desiredStateAt(schedule, at, holidays);
+      if (before !== after) actions.push({ action: after === "running" ? "start" : "stop", at });
+    }
+  }
+
+  return actions.sort((a, b) => a.at - b.at);
+}
+
+export function pausedUntil(tags: Record<string, string>, now: number): string | undefined {
+  const value = tags[schedulePauseTagKey];
+  if (!value) return undefined;
+  const until = Date.parse(value);
+  return Number.isFinite(until) && until > now ? new Date(until).toISOString() : undefined;
+}
+
+export async function listScheduledInstances(): Promise<ec2InstanceSummary[]> {
+  return await listEc2InstancesWithTagKey(scheduleTagKey, maxScheduledInstances, [
+    "pending",
+    "running",
+    "stopping",
+    "stopped",
+  ]);
+}
+
+export async function setSchedulePause(instanceId: string, until?: Date): Promise<void> {
+  if (until) {
+    await ec2Client.send(
+      new CreateTagsCommand({
+        Resources: [instanceId],
+        Tags: [{ Key: schedulePauseTagKey, Value: until.toISOString() }],
+      })
+    );
+  } else {
+    await ec2Client.send(
+      new DeleteTagsCommand({ Resources: [instanceId], Tags: [{ Key: schedulePauseTagKey }] })
+    );
+  }
+}
+
+function recordAction(entry: ScheduleLogEntry) {
+  actionLog.push(entry);
+  if (actionLog.length > maxLogEntries) actionLog.splice(0, actionLog.length - maxLogEntries);
+}
+
+// Newest first
+export function recentScheduleActions(limit: number): ScheduleLogEntry[] {
+  return actionLog.slice(-limit).reverse();
+}
+
+// Cleared by the next successful tick
+export function lastScheduleTickFailure(): { at: string; message: string } | undefined {
+  return lastTickFailure;
+}
+
+async function sendScheduleAction(action: ScheduleAction, instanceId: string, dryRun: boolean) {
+  if (action === "start") {
+    await ec2Client.send(new StartInstancesCommand({ InstanceIds: [instanceId], DryRun: dryRun }));
+  } else {
+    await ec2Client.send(new StopInstancesCommand({ InstanceIds: [instanceId], DryRun: dryRun }));
+  }
+}
+
+// Acts on every scheduled instance whose desired state changed between the two ticks
+export async function runScheduleTick(
+  settings: ScheduleSettings,
+  previousTick: number,
+  now: number
+): Promise<void> {
+  const instances = await listScheduledInstances();
+
+  for (const instance of instances) {
+    const tags = instance.tags ?? {};
+    const scheduleValue = tags[scheduleTagKey];
+
+    // Invalid tags are skipped here and reported by previewEc2Schedules
+    let schedule: ParsedSchedule;
+    try {
+      schedule = parseScheduleTag(scheduleValue);
+    } catch {
+      continue;
+    }
+
+    if (pausedUntil(tags, now)) continue;
+
+    const before = desiredStateAt(schedule, previousTick, settings.holidays);
+    const after = desiredStateAt(schedule, now, settings.holidays);
+    if (before === after) continue;
+
+    const action: ScheduleAction = after === "running" ? "start" : "stop";
+    if (action === "start" && instance.state !== "stopped") continue;
+    if (action === "stop" && instance.state !== "running") continue;
+
+    const entry: ScheduleLogEntry = {
+      at: new Date(now).toISOString(),
+      instanceId: instance.instanceId,
+      name: instance.name,
+      action,
+      schedule: scheduleValue,
+      mode: settings.mode === "live" ? "live" : "dry-run",
+      outcome: "done",
+    };
+
+    try {
+      await sendScheduleAction(action, instance.instanceId, settings.mode !== "live");
+    } catch (error: any) {
+      const code = error?.name ?? error?.Code;
+      if (settings.mode !== "live" && code === "DryRunOperation") {
+        entry.outcome = "would-do";
+      } else {
+        entry.outcome = "failed";
+        entry.code = code;
+        entry.message = error?.message;
+      }
+    }
+    recordAction(entry);
+  }
+}
+
+export function startEc2Scheduler(settings: ScheduleSettings): void {
+  if (settings.mode === "off" || schedulerStarted) return;
+  schedulerStarted = true;
+
+  // The first tick looks back one interval so a boundary just before startup is not lost
+  let previousTick = Date.now() - settings.intervalSeconds * 1000;
+
+  const tick = async () => {
+    const now = Date.now();
+    try {
+      await runScheduleTick(settings, previousTick, now);
+      previousTick = now;
+      lastTickFailure = undefined;
+    } catch (error: any) {
+      // Keep previousTick so the next tick still sees boundaries crossed during the failure
+      lastTickFailure = {
+        at: new Date(now).toISOString(),
+        message: error?.message ?? String(error),
+      };
+    }
+    setTimeout(tick, settings.intervalSeconds * 1000).unref();
+  };
+
+  console.log(`[scheduler] running in ${settings.mode} mode every ${settings.intervalSeconds}s`);
+  void tick();
+}
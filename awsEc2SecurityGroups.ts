@@ -0,0 +1,328 @@
+import {
+  DescribeNetworkInterfacesCommand,
+  DescribeSecurityGroupsCommand,
+  type DescribeNetworkInterfacesCommandOutput,
+  type DescribeSecurityGroupsCommandOutput,
+  type IpPermission,
+  type SecurityGroup,
+} from "@aws-sdk/client-ec2";
+
+import type { ec2InstanceSummary } from "./awsEc2Idle.js";
+import { severityOrder, type FindingSeverity } from "./awsS3Posture.js";
+import { defaultRegion, ec2ClientFor } from "./awsRegions.js";
+
+// Expands security group ingress rules and ranks what they expose. Internet exposure on a
+// sensitive port is critical when an instance using the group has a public IP and high
+// otherwise (it may still sit behind a public load balancer or gain an IP later). Groups
+// are only reported unused when no network interface in the region references them, so
+// groups used by RDS, load balancers or Lambda are not flagged. When the instance list was
+// capped, a group that looks unreachable may still be used by an instance that was not
+// listed, so it stays critical.
+
+export const defaultSensitivePorts: Record<number, string> = {
+  21: "FTP",
+  22: "SSH",
+  23: "Telnet",
+  445: "SMB",
+  1433: "SQL Server",
+  1521: "Oracle",
+  2375: "Docker API",
+  3306: "MySQL",
+  3389: "RDP",
+  5432: "PostgreSQL",
+  5900: "VNC",
+  6379: "Redis",
+  9200: "Elasticsearch",
+  11211: "Memcached",
+  27017: "MongoDB",
+};
+
+export type ingressRule = {
+  groupId: string;
+  protocol: string; // "tcp", "udp", "icmp", ... or "all"
+  fromPort?: number;
+  toPort?: number;
+  source: string;
+  sourceType: "ipv4" | "ipv6" | "security-group" | "prefix-list";
+  description?: string;
+};
+
+export type exposedInstanceRef = {
+  instanceId: string;
+  name?: string;
+  publicIpAddress?: string;
+};
+
+export type securityGroupFinding = {
+  severity: FindingSeverity;
+  check: "internet-sensitive-port" | "internet-open" | "broad-port-range" | "unused-group";
+  message: string;
+  groupId: string;
+  groupName?: string;
+  rule?: ingressRule;
+  instances: exposedInstanceRef[];
+};
+
+export type exposedInstance = exposedInstanceRef & {
+  exposures: Array<{
+    port: number;
+    service: string;
+    protocol: string;
+    groupId: string;
+    source: string;
+  }>;
+};
+
+const internetSources = new Set(["0.0.0.0/0", "::/0"]);
+
+// Rules can name protocols by number; -1 means every protocol
+const protocolNames: Record<string, string> = { "-1": "all", "6": "tcp", "17": "udp", "1": "icmp" };
+
+function describeRule(rule: ingressRule): string {
+  if (rule.protocol === "all") return "all traffic";
+  if (rule.fromPort === undefined || rule.toPort === undefined) return rule.protocol;
+  return rule.fromPort === rule.toPort
+    ? `${rule.protocol}/${rule.fromPort}`
+    : `${rule.protocol}/${rule.fromPort}-${rule.toPort}`;
+}
+
+function portCount(rule: ingressRule): number {
+  if (rule.protocol === "all") return 65536;
+  if (rule.protocol !== "tcp" && rule.protocol !== "udp") return 0;
+  if (rule.fromPort === undefined || rule.toPort === undefined) return 0;
+  return rule.toPort - rule.fromPort + 1;
+}
+
+// Sensitive services listen on TCP, so UDP and ICMP rules never match them
+function coversTcpPort(rule: ingressRule, port: number): boolean {
+  if (rule.protocol === "all") return true;
+  return (
+    rule.protocol === "tcp" &&
+    rule.fromPort !== undefined &&
+    rule.toPort !== undefined &&
+    rule.fromPort <= port &&
+    port <= rule.toPort
+  );
+}
+
+export function expandIngressRules(groupId: string, permissions: IpPermission[]): ingressRule[] {
+  const rules: ingressRule[] = [];
+
+  for (const permission of permissions) {
+    const rawProtocol = (permission.IpProtocol ?? "-1").toLowerCase();
+    const protocol = protocolNames[rawProtocol] ?? rawProtocol;
+    const base = {
+      groupId,
+      protocol,
+      fromPort: protocol === "all" ? undefined : permission.FromPort,
+      toPort: protocol === "all" ? undefined : permission.ToPort,
+    };
+
+    for (const range of permission.IpRanges ?? []) {
+      if (!range.CidrIp) continue;
+      rules.push({
+        ...base,
+        source: range.CidrIp,
+        sourceType: "ipv4",
+        description: range.Description,
+      });
+    }
+    for (const range of permission.Ipv6Ranges ?? []) {
+      if (!range.CidrIpv6) continue;
+      rules.push({
+        ...base,
+        source: range.CidrIpv6,
+        sourceType: "ipv6",
+        description: range.Description,
+      });
+    }
+    for (const pair of permission.UserIdGroupPairs ?? []) {
+      if (!pair.GroupId) continue;
+      rules.push({
+        ...base,
+        source: pair.GroupId,
+        sourceType: "security-group",
+        description: pair.Description,
+      });
+    }
+    for (const prefixList of permission.PrefixListIds ?? []) {
+      if (!prefixList.PrefixListId) continue;
+      rules.push({
+        ...base,
+        source: prefixList.PrefixListId,
+        sourceType: "prefix-list",
+        description: prefixList.Description,
+      });
+    }
+  }
+
+  return rules;
+}
+
+async function describeAllSecurityGroups(region: string): Promise<SecurityGroup[]> {
+  const groups: SecurityGroup[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const resp: DescribeSecurityGroupsCommandOutput = await ec2ClientFor(region).send(
+      new DescribeSecurityGroupsCommand({ MaxResults: 1000, NextToken: nextToken })
+    );
+    groups.push(...(resp.SecurityGroups ?? []));
+    nextToken = resp.NextToken;
+  } while (nextToken);
+  return groups;
+}
+
+// Groups attached to any network interface: instances, but also RDS, ELB, Lambda, etc.
+async function securityGroupIdsInUse(region: string): Promise<Set<string>> {
+  const inUse = new Set<string>();
+  let nextToken: string | undefined = undefined;
+  do {
+    const resp: DescribeNetworkInterfacesCommandOutput = await ec2ClientFor(region).send(
+      new DescribeNetworkInterfacesCommand({ MaxResults: 1000, NextToken: nextToken })
+    );
+    for (const eni of resp.NetworkInterfaces ?? []) {
+      for (const group of eni.Groups ?? []) {
+        if (group.GroupId) inUse.add(group.GroupId);
+      }
+    }
+    nextToken = resp.NextToken;
+  } while (nextToken);
+  return inUse;
+}
+
+export async function auditSecurityGroupExposure(
+  instances: ec2InstanceSummary[],
+  sensitivePorts: Record<number, string>,
+  broadRangeMinPorts: number,
+  instancesTruncated: boolean,
+  region: string = defaultRegion()
+): Promise<{
+  groupCount: number;
+  ruleCount: number;
+  findings: securityGroupFinding[];
+  exposedInstances: exposedInstance[];
+}> {
+  const groups = await describeAllSecurityGroups(region);
+  const inUse = await securityGroupIdsInUse(region);
+
+  const instancesByGroupId = new Map<string, ec2InstanceSummary[]>();
+  for (const instance of instances) {
+    for (const groupId of instance.securityGroupIds ?? []) {
+      instancesByGroupId.set(groupId, [...(instancesByGroupId.get(groupId) ?? []), instance]);
+    }
+  }
+
+  const findings: securityGroupFinding[] = [];
+  const exposuresByInstanceId = new Map<string, exposedInstance>();
+  let ruleCount = 0;
+
+  for (const group of groups) {
+    if (!group.GroupId) continue;
+    const groupId = group.GroupId;
+    const attached = instancesByGroupId.get(groupId) ?? [];
+    const refs: exposedInstanceRef[] = attached.map((instance) => ({
+      instanceId: instance.instanceId,
+      name: instance.name,
+      publicIpAddress: instance.publicIpAddress,
+    }));
+    const reachable = attached.some((instance) => instance.publicIpAddress);
+    const finding = (
+      severity: FindingSeverity,
+      check: securityGroupFinding["check"],
+      message: string,
+      rule?: ingressRule
+    ) =>
+      findings.push({
+        severity,
+        check,
+        message,
+        groupId,
+        groupName: group.GroupName,
+        rule,
+        instances: refs,
+      });
+
+    // The default group cannot be deleted, so reporting it unused is noise
+    if (!inUse.has(groupId) && group.GroupName !== "default") {
+      finding("low", "unused-group", `${groupId} (${group.GroupName}) is not attached to anything.`);
+    }
+
+    const rules = expandIngressRules(groupId, group.IpPermissions ?? []);
+    ruleCount += rules.length;
+
+    for (const rule of rules) {
+      const fromInternet = internetSources.has(rule.source);
+      const ports = Object.keys(sensitivePorts)
+        .map(Number)
+        .filter((port) => coversTcpPort(rule, port));
+
+      if (fromInternet && ports.length > 0) {
+        const services = ports.map((port) => `${sensitivePorts[port]} (${port})`).join(", ");
+        let reach = "; no running instance uses it.";
+        if (reachable) reach = " on instances with public IPs.";
+        else if (instancesTruncated) reach = "; not all running instances were checked.";
+        else if (attached.length > 0) reach = "; no running instance using it has a public IP.";
+        finding(
+          reachable || instancesTruncated ? "critical" : "high",
+          "internet-sensitive-port",
+          `${groupId} allows ${describeRule(rule)} from ${rule.source}, exposing ${services}${reach}`,
+          rule
+        );
+
+        for (const instance of attached) {
+          const entry = exposuresByInstanceId.get(instance.instanceId) ?? {
+            instanceId: instance.instanceId,
+            name: instance.name,
+            publicIpAddress: instance.publicIpAddress,
+            exposures: [],
+          };
+          for (const port of ports) {
+            entry.exposures.push({
+              port,
+              service: sensitivePorts[port],
+              protocol: rule.protocol,
+              groupId,
+              source: rule.source,
+            });
+          }
+          exposuresByInstanceId.set(instance.instanceId, entry);
+        }
+        continue;
+      }
+
+      const width = portCount(rule);
+      if (width >= broadRangeMinPorts) {
+        // Other security groups and prefix lists are internal sources
+        let severity: FindingSeverity = "low";
+        if (fromInternet) severity = "high";
+        else if (rule.sourceType === "ipv4" || rule.sourceType === "ipv6") severity = "medium";
+        finding(
+          severity,
+          "broad-port-range",
+          `${groupId} allows ${describeRule(rule)} (${width} ports) from ${rule.source}.`,
+          rule
+        );
+      } else if (fromInternet && width > 0) {
+        finding(
+          "info",
+          "internet-open",
+          `${groupId} allows ${describeRule(rule)} from ${rule.source}.`,
+          rule
+        );
+      }
+    }
+  }
+
+  findings.sort(
+    (a, b) =>
+      severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) ||
+      b.instances.length - a.instances.length
+  );
+
+  // Instances with a public IP first, since those are reachable right now
+  const exposedInstances = [...exposuresByInstanceId.values()].sort(
+    (a, b) => Number(Boolean(b.publicIpAddress)) - Number(Boolean(a.publicIpAddress))
+  );
+
+  return { groupCount: groups.length, ruleCount, findings, exposedInstances };
+}
@@ -0,0 +1,210 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+// Offline on-demand prices from assets/price-catalog.json, keyed by region. Rates are
+// Linux/shared tenancy for EC2 and Single-AZ for RDS; Multi-AZ doubles the RDS instance
+// and storage rates. Refresh the file from an AWS Price List export with
+// `npm run prices:import`, or point PRICE_CATALOG_FILE at a file whose regions and
+// rates are merged over the bundled ones.
+
+const rateMapSchema = z.record(z.number().nonnegative());
+
+const regionPricesSchema = z.object({
+  ec2: rateMapSchema.default({}),
+  // Engine ("mysql", "postgres", ...) to instance class to hourly rate
+  rds: z.record(rateMapSchema).default({}),
+  ebsGbMonth: rateMapSchema.default({}),
+  // gp3 includes 3000 IOPS and 125 MiB/s; these price what is provisioned above that
+  ebsGp3IopsMonth: z.number().nonnegative().optional(),
+  ebsGp3ThroughputMibpsMonth: z.number().nonnegative().optional(),
+  ebsSnapshotGbMonth: z.number().nonnegative().optional(),
+  rdsStorageGbMonth: rateMapSchema.default({}),
+});
+
+const priceCatalogSchema = z.object({
+  version: z.string(),
+  currency: z.string(),
+  hoursPerMonth: z.number().positive(),
+  basis: z.string().optional(),
+  regions: z.record(regionPricesSchema),
+});
+
+export type RegionPrices = z.infer<typeof regionPricesSchema>;
+export type PriceCatalog = z.infer<typeof priceCatalogSchema>;
+
+export type ResourceCost = {
+  hourlyCost: number;
+  monthlyCost: number;
+};
+
+export type CostSummary = {
+  currency: string;
+  catalogVersion: string;
+  regions: string[];
+  hourlyTotal: number;
+  monthlyTotal: number;
+  unpricedCount: number;
+  // Types or classes the catalog has no rate for; they are left out of the totals
+  unpricedTypes: string[];
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Later values win; nested rate maps are merged key by key so an override only lists
+// the rates it changes
+export function mergePriceData(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? mergePriceData(base[key], value) : value;
+  }
+  return merged;
+}
+
+export function loadPriceCatalog(overridePath?: string): PriceCatalog {
+  let merged: unknown = JSON.parse(
+    readFileSync(new URL("./assets/price-catalog.json", import.meta.url), "utf8")
+  );
+
+  if (overridePath && overridePath.trim().length > 0) {
+    let override: unknown;
+    try {
+      override = JSON.parse(readFileSync(overridePath.trim(), "utf8"));
+    } catch (error: any) {
+      throw new Error(
+        `Could not read PRICE_CATALOG_FILE "${overridePath}": ${error?.message ?? error}`
+      );
+    }
+    merged = mergePriceData(merged, override);
+  }
+
+  const parsed = priceCatalogSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new Error(`Invalid price catalog: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function ec2HourlyRate(
+  catalog: PriceCatalog,
+  region: string,
+  instanceType: string | undefined
+): number | undefined {
+  if (!instanceType) return undefined;
+  return catalog.regions[region]?.ec2[instanceType];
+}
+
+// On-demand compute only: EBS volumes, data transfer and licensed AMIs are not included.
+// Compute is only billed while the instance is pending or running.
+export function ec2InstanceCost(
+  catalog: PriceCatalog,
+  region: string,
+  instance: { instanceType?: string; state?: string }
+): ResourceCost | undefined {
+  const hourly = ec2HourlyRate(catalog, region, instance.instanceType);
+  if (hourly === undefined) return undefined;
+  const billed = !instance.state || instance.state === "running" || instance.state === "pending";
+  const rate = billed ? hourly : 0;
+  return { hourlyCost: round(rate), monthlyCost: round(rate * catalog.hoursPerMonth) };
+}
+
+// Storage plus any gp3 IOPS and throughput above the included baseline. io1/io2 IOPS
+// charges are not in the catalog and are left out.
+export function ebsVolumeMonthlyCost(
+  catalog: PriceCatalog,
+  region: string,
+  volume: { volumeType?: string; sizeGb?: number; iops?: number; throughputMibps?: number }
+): number | undefined {
+  const prices = catalog.regions[region];
+  const gbRate = volume.volumeType ? prices?.ebsGbMonth[volume.volumeType] : undefined;
+  if (gbRate === undefined || volume.sizeGb === undefined) return undefined;
+
+  let monthly = volume.sizeGb * gbRate;
+  if (volume.volumeType === "gp3") {
+    monthly += Math.max(0, (volume.iops ?? 3000) - 3000) * (prices.ebsGp3IopsMonth ?? 0);
+    monthly +=
+      Math.max(0, (volume.throughputMibps ?? 125) - 125) * (prices.ebsGp3ThroughputMibpsMonth ?? 0);
+  }
+  return round(monthly);
+}
+
+export function ebsSnapshotMonthlyCost(
+  catalog: PriceCatalog,
+  region: string,
+  sizeGb: number | undefined
+): number | undefined {
+  const rate = catalog.regions[region]?.ebsSnapshotGbMonth;
+  if (rate === undefined || sizeGb === undefined) return undefined;
+  return round(sizeGb * rate);
+}
+
+// Instance hours plus allocated storage. Storage billed per GB-month is spread over the
+// month so the hourly figure stays comparable with EC2. A stopped instance still pays
+// for its storage.
+export function rdsInstanceCost(
+  catalog: PriceCatalog,
+  region: string,
+  instance: {
+    engine?: string;
+    instanceClass?: string;
+    status?: string;
+    multiAz?: boolean;
+    allocatedStorageGb?: number;
+    storageType?: string;
+  }
+): ResourceCost | undefined {
+  const prices = catalog.regions[region];
+  if (!prices || !instance.engine || !instance.instanceClass) return undefined;
+
+  const instanceRate = prices.rds[instance.engine]?.[instance.instanceClass];
+  if (instanceRate === undefined) return undefined;
+
+  const copies = instance.multiAz ? 2 : 1;
+  const billedRate = instance.status === "stopped" ? 0 : instanceRate * copies;
+  const storageRate =
+    prices.rdsStorageGbMonth[instance.storageType ?? "gp2"] ?? prices.rdsStorageGbMonth.gp2 ?? 0;
+  const storageMonthly = (instance.allocatedStorageGb ?? 0) * storageRate * copies;
+  const instanceMonthly = billedRate * catalog.hoursPerMonth;
+
+  return {
+    hourlyCost: round(billedRate + storageMonthly / catalog.hoursPerMonth),
+    monthlyCost: round(instanceMonthly + storageMonthly),
+  };
+}
+
+export function summarizeCosts(
+  catalog: PriceCatalog,
+  regions: string[],
+  items: Array<{ cost?: ResourceCost; type?: string }>
+): CostSummary {
+  let hourlyTotal = 0;
+  let monthlyTotal = 0;
+  let unpricedCount = 0;
+  const unpricedTypes = new Set<string>();
+
+  for (const item of items) {
+    if (item.cost) {
+      hourlyTotal += item.cost.hourlyCost;
+      monthlyTotal += item.cost.monthlyCost;
+    } else {
+      unpricedCount++;
+      unpricedTypes.add(item.type ?? "unknown");
+    }
+  }
+
+  return {
+    currency: catalog.currency,
+    catalogVersion: catalog.version,
+    regions,
+    hourlyTotal: round(hourlyTotal),
+    monthlyTotal: round(monthlyTotal),
+    unpricedCount,
+    unpricedTypes: [...unpricedTypes].sort(),
+  };
+}
@@ -8,8 +8,8 @@ import {
 
 const awsRegion = process.env.AWS_REGION ?? process.env.AWS_DEFAULT_REGION;
 
-function getRdsClient(): RDSClient {
-  return new RDSClient({ region: awsRegion });
+function getRdsClient(region: string | undefined = awsRegion): RDSClient {
+  return new RDSClient({ region });
 }
 
 export type rdsInstanceSummary = {
@@ -25,6 +25,7 @@ export type rdsInstanceSummary = {
   storageEncrypted?: boolean;
   multiAz?: boolean;
   allocatedStorageGb?: number;
+  storageType?: string;
   dbName?: string;
 };
 
@@ -62,6 +63,7 @@ function mapInstanceSummary(instance: DBInstance): rdsInstanceSummary {
     storageEncrypted: instance.StorageEncrypted,
     multiAz: instance.MultiAZ,
     allocatedStorageGb: instance.AllocatedStorage,
+    storageType: instance.StorageType,
     dbName: instance.DBName,
   };
 }
@@ -92,9 +94,10 @@ function mapSnapshotSummary(snapshot: DBSnapshot): rdsSnapshotSummary {
 }
 
 export async function listRdsInstancesSimple(
-  maxInstances: number
+  maxInstances: number,
+  region?: string
 ): Promise<rdsInstanceSummary[]> {
-  const client = getRdsClient();
+  const client = getRdsClient(region);
   const results: rdsInstanceSummary[] = [];
   let marker: string | undefined;
 
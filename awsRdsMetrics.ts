@@ -1,16 +1,6 @@
-import {
-  CloudWatchClient,
-  GetMetricStatisticsCommand,
-  type Datapoint,
-} from "@aws-sdk/client-cloudwatch";
+import { GetMetricStatisticsCommand, type Datapoint } from "@aws-sdk/client-cloudwatch";
 
-function getRegion(): string {
-  const region = process.env.AWS_REGION ?? process.env.AWS_DEFAULT_REGION;
-  if (!region) throw new Error("Missing AWS_REGION in environment");
-  return region;
-}
-
-const cloudWatchClient = new CloudWatchClient({ region: getRegion() });
+import { defaultRegion, cloudWatchClientFor } from "./awsRegions.js";
 
 export type rdsCpuMetrics = {
   dbInstanceIdentifier: string;
@@ -46,12 +36,13 @@ function getLatest(datapoints: Datapoint[]): Datapoint | undefined {
 export async function getRdsCpuUtilization(
   dbInstanceIdentifier: string,
   lookbackHours: number,
-  periodSeconds: number
+  periodSeconds: number,
+  region: string = defaultRegion()
 ): Promise<rdsCpuMetrics> {
   const endTime = new Date();
   const startTime = new Date(endTime.getTime() - lookbackHours * 60 * 60 * 1000);
 
-  const response = await cloudWatchClient.send(
+  const response = await cloudWatchClientFor(region).send(
     new GetMetricStatisticsCommand({
       Namespace: "AWS/RDS",
       MetricName: "CPUUtilization",
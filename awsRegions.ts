@@ -0,0 +1,105 @@
+import { EC2Client, DescribeRegionsCommand } from "@aws-sdk/client-ec2";
+import { CloudWatchClient } from "@aws-sdk/client-cloudwatch";
+
+// Region selection for tools that can sweep several regions. Without a selection a tool
+// stays on AWS_REGION; "all-enabled" asks EC2 which regions the account can use. Each
+// region runs independently so one disabled or denied region does not fail the sweep.
+
+export const allEnabledRegions = "all-enabled";
+
+export type regionSelection = string[] | typeof allEnabledRegions | undefined;
+
+export type regionFailure = { region: string; error: unknown };
+
+// Enough to overlap network waits without tripping API rate limits across regions
+const maxConcurrentRegions = 4;
+
+export function defaultRegion(): string {
+  const region = process.env.AWS_REGION ?? process.env.AWS_DEFAULT_REGION;
+  if (!region) throw new Error("Missing AWS_REGION in environment");
+  return region;
+}
+
+// One client per region, created on first use and shared by every EC2 and CloudWatch module
+const ec2Clients = new Map<string, EC2Client>();
+const cloudWatchClients = new Map<string, CloudWatchClient>();
+
+export function ec2ClientFor(region: string): EC2Client {
+  let client = ec2Clients.get(region);
+  if (!client) {
+    client = new EC2Client({ region });
+    ec2Clients.set(region, client);
+  }
+  return client;
+}
+
+export function cloudWatchClientFor(region: string): CloudWatchClient {
+  let client = cloudWatchClients.get(region);
+  if (!client) {
+    client = new CloudWatchClient({ region });
+    cloudWatchClients.set(region, client);
+  }
+  return client;
+}
+
+export async function resolveRegions(selection: regionSelection): Promise<string[]> {
+  if (!selection) return [defaultRegion()];
+  if (selection !== allEnabledRegions) return [...new Set(selection)];
+
+  // Without AllRegions, EC2 lists only regions that need no opt-in or are opted in
+  const resp = await ec2ClientFor(defaultRegion()).send(new DescribeRegionsCommand({}));
+  return (resp.Regions ?? [])
+    .map((region) => region.RegionName)
+    .filter((name): name is string => Boolean(name))
+    .sort();
+}
+
+// Runs fn for every region, a few at a time. Results keep the order of regions.
+export async function mapRegions<T>(
+  regions: string[],
+  fn: (region: string) => Promise<T>
+): Promise<{ results: Array<{ region: string; value: T }>; failures: regionFailure[] }> {
+  const settled: Array<{ region: string; value?: T; error?: unknown; failed: boolean }> = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < regions.length) {
+      const index = next++;
+      const region = regions[index];
+      try {
+        settled[index] = { region, value: await fn(region), failed: false };
+      } catch (error) {
+        settled[index] = { region, error, failed: true };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(maxConcurrentRegions, regions.length) }, () => worker())
+  );
+
+  return {
+    results: settled
+      .filter((item) => !item.failed)
+      .map((item) => ({ region: item.region, value: item.value as T })),
+    failures: settled
+      .filter((item) => item.failed)
+      .map((item) => ({ region: item.region, error: item.error })),
+  };
+}
+
+// Flattens per-region lists and tags every record with its region. The call only fails
+// when no region succeeded, so a single-region call still surfaces its error.
+export function mergeRegionResults<T extends object>(sweep: {
+  results: Array<{ region: string; value: T[] }>;
+  failures: regionFailure[];
+}): Array<T & { region: string }> {
+  if (sweep.results.length === 0 && sweep.failures.length > 0) throw sweep.failures[0].error;
+  return sweep.results.flatMap(({ region, value }) => value.map((item) => ({ ...item, region })));
+}
+
+// Applies a record cap to merged sweep results. Callers fetch one record over the cap from
+// each region, so a region holding exactly the cap does not read as truncated.
+export function capRegionResults<T>(items: T[], max: number): { items: T[]; truncated: boolean } {
+  return { items: items.slice(0, max), truncated: items.length > max };
+}
@@ -4,9 +4,46 @@ import {
   type ListObjectsV2CommandOutput,
   PutObjectCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   GetBucketLocationCommand,
+  DeleteObjectsCommand,
+  DeleteObjectCommand,
+  GetBucketLifecycleConfigurationCommand,
+  GetBucketVersioningCommand,
+  ListObjectVersionsCommand,
+  type ListObjectVersionsCommandOutput,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCopyCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  GetObjectTaggingCommand,
+  PutObjectTaggingCommand,
+  DeleteObjectTaggingCommand,
+  GetPublicAccessBlockCommand,
+  GetBucketEncryptionCommand,
+  GetBucketPolicyCommand,
+  GetBucketAclCommand,
+  GetBucketLoggingCommand,
+  GetBucketOwnershipControlsCommand,
+  type StorageClass,
+  PutBucketLifecycleConfigurationCommand,
+  type LifecycleRule,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { pipeline, type Readable, type Transform } from "node:stream";
+import { createHmac } from "node:crypto";
+
+import {
+  detectCompressionFromHeaders,
+  detectCompressionFromMagic,
+  createDecompressor,
+  readZipEntries,
+  locateZipEntryData,
+  createZipEntryDecoder,
+  type CompressionKind,
+  type ZipEntry,
+} from "./awsS3Archive.js";
 
 function getRegion(): string {
   const region = process.env.AWS_REGION;
@@ -26,6 +63,19 @@ function getS3Client(region: string): S3Client {
   return client;
 }
 
+// The default client signs a CRC32 of the empty body into presigned PUT URLs, which
+// breaks real uploads, so presigning uploads uses its own client per region
+const presignPutClients = new Map<string, S3Client>();
+
+function getPresignPutClient(region: string): S3Client {
+  const cached = presignPutClients.get(region);
+  if (cached) return cached;
+
+  const client = new S3Client({ region, requestChecksumCalculation: "WHEN_REQUIRED" });
+  presignPutClients.set(region, client);
+  return client;
+}
+
 function normalizeBucketRegion(region: string | undefined | null): string {
   if (!region) return "us-east-1";
   if (region === "EU") return "eu-west-1";
@@ -62,11 +112,101 @@ async function getS3ClientForBucket(bucket: string): Promise<S3Client> {
 }
 
 
+// Keys the agent manages itself (deletion plans, write backups). Tools never write here directly.
+export const agentReservedPrefix = ".daemo-agent/";
+
+export function isReservedKey(key: string): boolean {
+  return key.startsWith(agentReservedPrefix);
+}
+
+// True when some key under the prefix could be reserved, e.g. "" or ".daemo"
+export function overlapsReservedPrefix(prefix: string): boolean {
+  return isReservedKey(prefix) || agentReservedPrefix.startsWith(prefix);
+}
+
+export type WriteMode = "overwrite" | "create-only" | "if-match" | "overwrite-with-backup";
+
+export type WriteResult = {
+  etag?: string;
+  previousEtag?: string;
+  backupKey?: string;
+};
+
+export type UploadConstraints = {
+  key?: string;
+  keyPrefix?: string;
+  contentType?: string;
+  contentLength?: number;
+  minBytes?: number;
+  maxBytes?: number;
+};
+
+export type PresignedPost = {
+  url: string;
+  fields: Record<string, string>;
+};
+
+export type CopySource = {
+  bucket: string;
+  key: string;
+  size: number;
+  etag?: string;
+  storageClass?: string;
+};
+
+export type CopyResult = {
+  etag?: string;
+  versionId?: string;
+  multipart: boolean;
+};
+
+export type ObjectTag = { key: string; value: string };
+
+export type ObjectDetails = {
+  key: string;
+  size: number;
+  etag?: string;
+  contentType?: string;
+  contentEncoding?: string;
+  cacheControl?: string;
+  lastModified?: string;
+  versionId?: string;
+  storageClass: string;
+  archiveStatus?: string;
+  restore?: { inProgress: boolean; expiresAt?: string };
+  serverSideEncryption?: string;
+  kmsKeyId?: string;
+  bucketKeyEnabled?: boolean;
+  metadata: Record<string, string>;
+  tags?: ObjectTag[];
+};
+
+export type BucketSecurityConfig = {
+  bucket: string;
+  region: string;
+  publicAccessBlock?: {
+    blockPublicAcls: boolean;
+    ignorePublicAcls: boolean;
+    blockPublicPolicy: boolean;
+    restrictPublicBuckets: boolean;
+  };
+  encryption?: { algorithm?: string; kmsKeyId?: string; bucketKeyEnabled?: boolean };
+  versioning?: { status: VersioningStatus; mfaDelete: "Enabled" | "Disabled" };
+  lifecycleRules?: LifecycleRule[];
+  policy?: string;
+  aclGrants?: Array<{ grantee: string; permission: string }>;
+  logging?: { enabled: boolean; targetBucket?: string; targetPrefix?: string };
+  objectOwnership?: string;
+  // Sections that could not be read, usually because the caller lacks the Get* permission
+  unavailable: Array<{ section: string; reason: string }>;
+};
+
 export type S3ObjectMeta = {
   key: string;
   size: number;
   lastModified?: string;
   storageClass?: string;
+  etag?: string;
 };
 
 export type OldObject = {
@@ -77,13 +217,87 @@ export type OldObject = {
   storageClass?: string;
 };
 
+export type DeleteObjectResult = {
+  deleted: string[];
+  errors: Array<{ key: string; code?: string; message?: string }>;
+};
+
 export type TextObject = {
   bucket: string;
   key: string;
   content: string;
   contentType?: string;
+  etag?: string;
 };
 
+export type ObjectVersion = {
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  lastModified?: string;
+  size?: number;
+  etag?: string;
+  storageClass?: string;
+};
+
+export type VersioningStatus = "Enabled" | "Suspended" | "Disabled";
+
+export type ObjectHead = {
+  size: number;
+  etag?: string;
+  contentType?: string;
+  contentEncoding?: string;
+  lastModified?: string;
+  versionId?: string;
+  storageClass?: string;
+};
+
+export type TextReadOptions = {
+  startByte?: number;
+  endByte?: number; // inclusive
+  headLines?: number;
+  tailLines?: number;
+  maxBytes: number;
+  zipEntry?: string;
+  versionId?: string;
+};
+
+export type TextObjectSlice = TextObject & {
+  etag?: string;
+  versionId?: string;
+  totalBytes: number;
+  compression?: CompressionKind;
+  zipEntry?: string;
+  decompressedTotalBytes?: number;
+  rangeStart: number;
+  rangeEnd: number; // inclusive, -1 when nothing was returned
+  bytesReturned: number;
+  truncated: boolean;
+};
+
+// Byte window cut from an object or from its decompressed stream
+type byteWindow = {
+  buffer: Buffer;
+  windowStart: number;
+  cutByCap: boolean; // maxBytes cut off part of what was asked for
+  moreAfter: boolean; // the data continues past the window
+  streamBytes?: number; // full length, when the stream was read to the end
+};
+
+type sliceBase = Omit<
+  TextObjectSlice,
+  "content" | "rangeStart" | "rangeEnd" | "bytesReturned" | "truncated"
+>;
+
+// Zip central directories past this size are refused rather than downloaded
+const maxZipDirectoryBytes = 16 * 1024 * 1024;
+
+function s3Error(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
 function toIso(date?: Date): string | undefined {
   return date ? date.toISOString() : undefined;
 }
@@ -100,6 +314,59 @@ async function streamToString(body: any): Promise<string> {
   return Buffer.concat(chunks).toString("utf8");
 }
 
+// Reads at most maxBytes, and stops early once stopAfterLines newlines were seen
+async function streamToBufferCapped(
+  body: any,
+  maxBytes: number,
+  stopAfterLines?: number
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  let newlines = 0;
+
+  for await (const chunk of body as AsyncIterable<Uint8Array>) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    const take = buffer.subarray(0, maxBytes - total);
+    chunks.push(take);
+    total += take.length;
+
+    if (stopAfterLines !== undefined) {
+      for (const byte of take) if (byte === 0x0a) newlines++;
+      if (newlines >= stopAfterLines) break;
+    }
+    if (total >= maxBytes) break;
+  }
+
+  return Buffer.concat(chunks);
+}
+
+// NUL bytes, lots of control characters or invalid UTF-8 mean this is not a text file.
+// Reads, searches and tabular queries all use this so they agree on what is binary.
+export function looksBinary(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.length === 0) return false;
+
+  let controlBytes = 0;
+  for (const byte of sample) {
+    if (byte === 0x00) return true;
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b)) controlBytes++;
+  }
+  if (controlBytes / sample.length > 0.1) return true;
+
+  const decoded = new TextDecoder("utf-8").decode(sample, { stream: true });
+  const replacements = decoded.split("\uFFFD").length - 1;
+  return replacements / Math.max(decoded.length, 1) > 0.1;
+}
+
+// Decodes a byte window that may start or end in the middle of a UTF-8 character
+function decodeUtf8Window(buffer: Buffer, startsMidObject: boolean): string {
+  let offset = 0;
+  if (startsMidObject) {
+    while (offset < 3 && offset < buffer.length && (buffer[offset] & 0xc0) === 0x80) offset++;
+  }
+  return new TextDecoder("utf-8").decode(buffer.subarray(offset), { stream: true });
+}
+
 export async function listS3Objects(
   bucket: string,
   prefix: string,
@@ -144,11 +411,97 @@ export async function createPresignedGetUrl(
   return await getSignedUrl(s3Client, command, { expiresIn: expiresInSeconds });
 }
 
+export async function createPresignedPutUrl(
+  bucket: string,
+  key: string,
+  constraints: Pick<UploadConstraints, "contentType" | "contentLength">,
+  expiresInSeconds: number
+): Promise<string> {
+  const region = await (await getS3ClientForBucket(bucket)).config.region();
+  const s3Client = getPresignPutClient(region);
+  const command = new PutObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    ContentType: constraints.contentType,
+    ContentLength: constraints.contentLength,
+  });
+
+  // Signing these headers makes S3 reject uploads that send a different value
+  return await getSignedUrl(s3Client, command, {
+    expiresIn: expiresInSeconds,
+    signableHeaders: new Set(["content-type", "content-length"]),
+  });
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// Browser-style POST upload. The policy document is signed with SigV4, so S3 enforces
+// every condition in it, including the expiry and the content-length range.
+export async function createPresignedPost(
+  bucket: string,
+  constraints: UploadConstraints,
+  expiresInSeconds: number
+): Promise<PresignedPost> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const region = await s3Client.config.region();
+  const credentials = await s3Client.config.credentials();
+
+  const now = new Date();
+  const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const shortDate = amzDate.slice(0, 8);
+  const credential = `${credentials.accessKeyId}/${shortDate}/${region}/s3/aws4_request`;
+
+  const fields: Record<string, string> = {
+    key: constraints.key ?? `${constraints.keyPrefix ?? ""}\${filename}`,
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": credential,
+    "X-Amz-Date": amzDate,
+  };
+  if (credentials.sessionToken) fields["X-Amz-Security-Token"] = credentials.sessionToken;
+  if (constraints.contentType) fields["Content-Type"] = constraints.contentType;
+
+  const conditions: unknown[] = [
+    { bucket },
+    constraints.key !== undefined
+      ? { key: constraints.key }
+      : ["starts-with", "$key", constraints.keyPrefix ?? ""],
+    ["content-length-range", constraints.minBytes ?? 0, constraints.maxBytes ?? 5 * 1024 ** 3],
+  ];
+  if (constraints.contentType) conditions.push({ "Content-Type": constraints.contentType });
+  for (const [name, value] of Object.entries(fields)) {
+    if (name.startsWith("X-Amz-")) conditions.push({ [name]: value });
+  }
+
+  const policy = Buffer.from(
+    JSON.stringify({
+      expiration: new Date(now.getTime() + expiresInSeconds * 1000).toISOString(),
+      conditions,
+    })
+  ).toString("base64");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, shortDate), region), "s3"),
+    "aws4_request"
+  );
+  fields.Policy = policy;
+  fields["X-Amz-Signature"] = hmac(signingKey, policy).toString("hex");
+
+  // Dotted bucket names break virtual-hosted TLS, so they use path-style URLs
+  const url = bucket.includes(".")
+    ? `https://s3.${region}.amazonaws.com/${bucket}`
+    : `https://${bucket}.s3.${region}.amazonaws.com/`;
+
+  return { url, fields };
+}
+
 export async function putTextObject(
   bucket: string,
   key: string,
   content: string,
-  contentType?: string
+  contentType?: string,
+  conditions: { ifMatch?: string; ifNoneMatch?: string } = {}
 ): Promise<string | undefined> {
   const s3Client = await getS3ClientForBucket(bucket);
   const command = new PutObjectCommand({
@@ -156,12 +509,126 @@ export async function putTextObject(
     Key: key,
     Body: content,
     ContentType: contentType && contentType.trim().length > 0 ? contentType : undefined,
+    IfMatch: conditions.ifMatch,
+    IfNoneMatch: conditions.ifNoneMatch,
   });
 
   const response = await s3Client.send(command);
   return response.ETag;
 }
 
+export function isPreconditionFailure(error: any): boolean {
+  const code = error?.name || error?.Code;
+  const status = error?.$metadata?.httpStatusCode;
+  return (
+    code === "PreconditionFailed" ||
+    code === "ConditionalRequestConflict" ||
+    status === 412 ||
+    status === 409
+  );
+}
+
+function normalizeEtag(etag: string): string {
+  const trimmed = etag.trim();
+  return trimmed.startsWith('"') ? trimmed : `"${trimmed}"`;
+}
+
+// Used after a move's copy step, so a source rewritten mid-move is never deleted
+export async function deleteS3ObjectIfMatch(bucket: string, key: string, etag?: string) {
+  const s3Client = await getS3ClientForBucket(bucket);
+  try {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key, IfMatch: etag }));
+  } catch (error: any) {
+    if (!isPreconditionFailure(error)) throw error;
+    throw s3Error("SourceChanged", `"${key}" changed after it was copied, so it was not deleted.`);
+  }
+}
+
+export async function headS3ObjectIfExists(
+  bucket: string,
+  key: string
+): Promise<ObjectHead | undefined> {
+  try {
+    return await headS3Object(bucket, key);
+  } catch (error: any) {
+    if (error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404) return undefined;
+    throw error;
+  }
+}
+
+export async function writeTextObject(
+  bucket: string,
+  key: string,
+  content: string,
+  contentType: string | undefined,
+  mode: WriteMode,
+  expectedEtag?: string
+): Promise<WriteResult> {
+  try {
+    if (mode === "create-only") {
+      const etag = await putTextObject(bucket, key, content, contentType, { ifNoneMatch: "*" });
+      return { etag };
+    }
+
+    if (mode === "if-match") {
+      if (!expectedEtag) {
+        throw new Error("if-match writes need the expectedEtag returned by readTextFile.");
+      }
+      const previousEtag = normalizeEtag(expectedEtag);
+      const etag = await putTextObject(bucket, key, content, contentType, {
+        ifMatch: previousEtag,
+      });
+      return { etag, previousEtag };
+    }
+
+    if (mode === "overwrite-with-backup") {
+      const existing = await headS3ObjectIfExists(bucket, key);
+      if (!existing) {
+        const etag = await putTextObject(bucket, key, content, contentType, { ifNoneMatch: "*" });
+        return { etag };
+      }
+
+      // Both steps are pinned to the ETag we saw, so a concurrent write fails instead of being lost
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const backupKey = `${agentReservedPrefix}backups/${key}.${timestamp}`;
+      const s3Client = await getS3ClientForBucket(bucket);
+      await s3Client.send(
+        new CopyObjectCommand({
+          Bucket: bucket,
+          Key: backupKey,
+          CopySource: `${bucket}/${encodeURIComponent(key)}`,
+          CopySourceIfMatch: existing.etag,
+          MetadataDirective: "COPY",
+        })
+      );
+
+      const etag = await putTextObject(bucket, key, content, contentType, {
+        ifMatch: existing.etag,
+      });
+      return { etag, previousEtag: existing.etag, backupKey };
+    }
+
+    const etag = await putTextObject(bucket, key, content, contentType);
+    return { etag };
+  } catch (error: any) {
+    if (!isPreconditionFailure(error)) throw error;
+
+    if (mode === "create-only") {
+      throw s3Error("WriteConflict", `"${key}" already exists, so the create-only write was skipped.`);
+    }
+    if (mode === "if-match") {
+      throw s3Error(
+        "WriteConflict",
+        `"${key}" changed since it was read (expected ETag ${expectedEtag}). Read it again and reapply the edit.`
+      );
+    }
+    throw s3Error(
+      "WriteConflict",
+      `"${key}" was changed by someone else during the backup, so it was not overwritten. Try again.`
+    );
+  }
+}
+
 export async function getTextObject(
   bucket: string,
   key: string
@@ -182,7 +649,825 @@ export async function getTextObject(
     key,
     content,
     contentType: response.ContentType,
+    etag: response.ETag,
+  };
+}
+
+export async function headS3Object(
+  bucket: string,
+  key: string,
+  versionId?: string
+): Promise<ObjectHead> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const response = await s3Client.send(
+    new HeadObjectCommand({ Bucket: bucket, Key: key, VersionId: versionId })
+  );
+
+  return {
+    size: typeof response.ContentLength === "number" ? response.ContentLength : 0,
+    etag: response.ETag,
+    versionId: response.VersionId,
+    contentType: response.ContentType,
+    contentEncoding: response.ContentEncoding,
+    lastModified: toIso(response.LastModified),
+    storageClass: response.StorageClass,
+  };
+}
+
+async function readS3Range(
+  bucket: string,
+  key: string,
+  start: number,
+  end: number,
+  versionId?: string
+): Promise<Buffer> {
+  const body = await getS3ObjectStream(bucket, key, `bytes=${start}-${end}`, versionId);
+  return await streamToBufferCapped(body, end - start + 1);
+}
+
+async function getS3ObjectStream(
+  bucket: string,
+  key: string,
+  range?: string,
+  versionId?: string
+): Promise<Readable> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const response = await s3Client.send(
+    new GetObjectCommand({ Bucket: bucket, Key: key, Range: range, VersionId: versionId })
+  );
+
+  if (!response.Body) {
+    throw new Error(`S3 object had an empty body for key="${key}".`);
+  }
+  return response.Body as Readable;
+}
+
+function decodeThrough(body: Readable, decoder: Transform): Transform {
+  // Errors on either side surface while iterating the decoder; breaking early tears both down
+  pipeline(body, decoder, () => {});
+  return decoder;
+}
+
+async function readWindowFromStream(
+  source: AsyncIterable<Uint8Array>,
+  options: TextReadOptions
+): Promise<byteWindow> {
+  const { startByte, endByte, headLines, tailLines, maxBytes } = options;
+  let position = 0;
+
+  if (tailLines !== undefined) {
+    // A compressed stream can only be decoded from the start, so reaching its end costs the
+    // whole file. The tail is only served when the decoded text fits in maxBytes.
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      position += buffer.length;
+      if (position > maxBytes) {
+        throw s3Error(
+          "CompressedTailTooLarge",
+          `tailLines on a compressed file only works when it decompresses to at most maxBytes (${maxBytes} bytes). Use headLines or startByte/endByte instead.`
+        );
+      }
+      chunks.push(buffer);
+    }
+    return {
+      buffer: Buffer.concat(chunks),
+      windowStart: 0,
+      cutByCap: false,
+      moreAfter: false,
+      streamBytes: position,
+    };
+  }
+
+  const windowStart = startByte ?? 0;
+  const requestedEnd = endByte ?? Number.POSITIVE_INFINITY;
+  const windowEnd = Math.min(requestedEnd, windowStart + maxBytes - 1);
+
+  const collected: Buffer[] = [];
+  let newlines = 0;
+  let windowFull = false;
+  let moreAfter = false;
+  let readToEnd = true;
+
+  for await (const chunk of source) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    if (buffer.length === 0) continue;
+    if (windowFull) {
+      moreAfter = true;
+      readToEnd = false;
+      break;
+    }
+
+    const chunkStart = position;
+    position += buffer.length;
+
+    const from = Math.max(windowStart - chunkStart, 0);
+    const to = Math.min(windowEnd - chunkStart + 1, buffer.length);
+    if (to > from) {
+      const piece = buffer.subarray(from, to);
+      collected.push(piece);
+      if (headLines !== undefined) {
+        for (const byte of piece) if (byte === 0x0a) newlines++;
+      }
+    }
+
+    if (position > windowEnd + 1) {
+      moreAfter = true;
+      readToEnd = false;
+      break;
+    }
+    if (headLines !== undefined && newlines >= headLines) {
+      moreAfter = true;
+      readToEnd = false;
+      break;
+    }
+    if (position === windowEnd + 1) windowFull = true;
+  }
+
+  return {
+    buffer: Buffer.concat(collected),
+    windowStart,
+    cutByCap: moreAfter && windowEnd < requestedEnd,
+    moreAfter,
+    streamBytes: readToEnd ? position : undefined,
+  };
+}
+
+function windowToSlice(
+  window: byteWindow,
+  options: TextReadOptions,
+  base: sliceBase
+): TextObjectSlice {
+  const { buffer, windowStart } = window;
+  const { headLines, tailLines } = options;
+
+  if (looksBinary(buffer)) {
+    const error = new Error(
+      `"${base.zipEntry ?? base.key}" looks like a binary file (${base.contentType ?? "unknown content type"}), so it was not read as text.`
+    );
+    error.name = "BinaryObject";
+    throw error;
+  }
+
+  let content = decodeUtf8Window(buffer, windowStart > 0);
+  let truncated = window.cutByCap;
+  let rangeStart = windowStart;
+
+  if (headLines !== undefined) {
+    const lines = content.split("\n");
+    truncated = lines.length <= headLines && window.moreAfter;
+    content = lines.slice(0, headLines).join("\n");
+  } else if (tailLines !== undefined) {
+    const lines = content.split("\n");
+    // First line is partial when the window does not start at the beginning
+    const completeLines = windowStart > 0 ? lines.slice(1) : lines;
+    const trailingNewline = completeLines[completeLines.length - 1] === "";
+    if (trailingNewline) completeLines.pop();
+    truncated = completeLines.length < tailLines && windowStart > 0;
+    content = completeLines.slice(-tailLines).join("\n");
+    const windowEnd = windowStart + buffer.length;
+    rangeStart = windowEnd - Buffer.byteLength(content) - (trailingNewline ? 1 : 0);
+  }
+
+  const bytesReturned = Buffer.byteLength(content);
+
+  return {
+    ...base,
+    content,
+    rangeStart,
+    rangeEnd: bytesReturned > 0 ? rangeStart + bytesReturned - 1 : -1,
+    bytesReturned,
+    truncated,
+  };
+}
+
+async function detectObjectCompression(
+  bucket: string,
+  key: string,
+  head: ObjectHead
+): Promise<CompressionKind | undefined> {
+  const fromHeaders = detectCompressionFromHeaders(key, head.contentEncoding);
+  if (fromHeaders || head.size < 4) return fromHeaders;
+  return detectCompressionFromMagic(await readS3Range(bucket, key, 0, 3, head.versionId));
+}
+
+async function findZipEntry(
+  bucket: string,
+  key: string,
+  totalBytes: number,
+  entryName: string,
+  versionId?: string
+): Promise<ZipEntry> {
+  const readRange = (start: number, end: number) =>
+    readS3Range(bucket, key, start, end, versionId);
+  const entries = await readZipEntries(readRange, totalBytes, maxZipDirectoryBytes);
+  const entry = entries.find((item) => item.name === entryName && !item.isDirectory);
+  if (!entry) {
+    throw s3Error(
+      "ZipEntryNotFound",
+      `"${entryName}" is not a file in zip archive "${key}". Call listZipEntries to see its entries.`
+    );
+  }
+  return entry;
+}
+
+export async function listZipArchiveEntries(
+  bucket: string,
+  key: string
+): Promise<{ totalBytes: number; entries: ZipEntry[] }> {
+  const head = await headS3Object(bucket, key);
+  if ((await detectObjectCompression(bucket, key, head)) !== "zip") {
+    throw s3Error("NotAZip", `"${key}" is not a zip archive.`);
+  }
+
+  const readRange = (start: number, end: number) => readS3Range(bucket, key, start, end);
+  const entries = await readZipEntries(readRange, head.size, maxZipDirectoryBytes);
+  return { totalBytes: head.size, entries };
+}
+
+// Whole-object text stream, decompressed when needed. Zip archives are not supported here.
+export async function openTextObjectStream(
+  bucket: string,
+  key: string
+): Promise<{ stream: Readable; compression?: CompressionKind }> {
+  const head = await headS3Object(bucket, key);
+  const compression = await detectObjectCompression(bucket, key, head);
+  if (compression === "zip") {
+    throw s3Error("ZipArchive", `"${key}" is a zip archive.`);
+  }
+
+  const body = await getS3ObjectStream(bucket, key);
+  if (!compression) return { stream: body };
+  return { stream: decodeThrough(body, createDecompressor(compression)), compression };
+}
+
+export async function getTextObjectSlice(
+  bucket: string,
+  key: string,
+  options: TextReadOptions
+): Promise<TextObjectSlice> {
+  const { startByte, endByte, headLines, tailLines, maxBytes, zipEntry } = options;
+  const head = await headS3Object(bucket, key, options.versionId);
+  // Pin every follow-up GET to the version we just inspected
+  const versionId = head.versionId ?? options.versionId;
+  const totalBytes = head.size;
+  const compression = await detectObjectCompression(bucket, key, head);
+
+  const base: sliceBase = {
+    bucket,
+    key,
+    contentType: head.contentType,
+    etag: head.etag,
+    versionId: head.versionId,
+    totalBytes,
+    compression,
+  };
+
+  if (zipEntry !== undefined) {
+    if (compression !== "zip") {
+      throw s3Error("NotAZip", `"${key}" is not a zip archive, so zipEntry cannot be used.`);
+    }
+
+    const entry = await findZipEntry(bucket, key, totalBytes, zipEntry, versionId);
+    const decoder = createZipEntryDecoder(entry);
+    const memberBase = { ...base, zipEntry, decompressedTotalBytes: entry.uncompressedBytes };
+    if (entry.compressedBytes === 0) {
+      return windowToSlice(
+        { buffer: Buffer.alloc(0), windowStart: 0, cutByCap: false, moreAfter: false },
+        options,
+        memberBase
+      );
+    }
+
+    const readRange = (start: number, end: number) =>
+      readS3Range(bucket, key, start, end, versionId);
+    const data = await locateZipEntryData(readRange, entry);
+    const body = await getS3ObjectStream(
+      bucket,
+      key,
+      `bytes=${data.start}-${data.end}`,
+      versionId
+    );
+    const window = await readWindowFromStream(decodeThrough(body, decoder), options);
+    return windowToSlice(window, options, memberBase);
+  }
+
+  if (compression === "zip") {
+    throw s3Error(
+      "ZipArchive",
+      `"${key}" is a zip archive. Call listZipEntries and pass zipEntry to read one file from it.`
+    );
+  }
+
+  if (compression) {
+    // Offsets and caps apply to the decompressed text, so stream through the decoder
+    const decoder = createDecompressor(compression);
+    const body = await getS3ObjectStream(bucket, key, undefined, versionId);
+    const window = await readWindowFromStream(decodeThrough(body, decoder), options);
+    return windowToSlice(window, options, {
+      ...base,
+      decompressedTotalBytes: window.streamBytes,
+    });
+  }
+
+  if (totalBytes === 0) {
+    return windowToSlice(
+      { buffer: Buffer.alloc(0), windowStart: 0, cutByCap: false, moreAfter: false },
+      options,
+      base
+    );
+  }
+
+  // Plain objects: pick the byte window first so we never download more than maxBytes
+  let windowStart = 0;
+  let windowEnd = Math.min(totalBytes, maxBytes) - 1;
+  let requestedEnd = totalBytes - 1;
+
+  if (tailLines !== undefined) {
+    windowStart = Math.max(0, totalBytes - maxBytes);
+    windowEnd = totalBytes - 1;
+  } else if (startByte !== undefined || endByte !== undefined) {
+    windowStart = startByte ?? 0;
+    if (windowStart >= totalBytes) {
+      return windowToSlice(
+        { buffer: Buffer.alloc(0), windowStart, cutByCap: false, moreAfter: false },
+        options,
+        base
+      );
+    }
+    requestedEnd = Math.min(endByte ?? totalBytes - 1, totalBytes - 1);
+    windowEnd = Math.min(requestedEnd, windowStart + maxBytes - 1);
+  }
+
+  const body = await getS3ObjectStream(
+    bucket,
+    key,
+    `bytes=${windowStart}-${windowEnd}`,
+    versionId
+  );
+  const buffer = await streamToBufferCapped(body, windowEnd - windowStart + 1, headLines);
+
+  return windowToSlice(
+    {
+      buffer,
+      windowStart,
+      cutByCap: windowEnd < requestedEnd,
+      moreAfter: windowStart + buffer.length < totalBytes,
+    },
+    options,
+    base
+  );
+}
+
+export async function deleteS3ObjectsBatched(
+  bucket: string,
+  keys: string[]
+): Promise<DeleteObjectResult> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const result: DeleteObjectResult = { deleted: [], errors: [] };
+
+  // DeleteObjects accepts at most 1000 keys per request
+  const maxKeysPerCall = 1000;
+  for (let i = 0; i < keys.length; i += maxKeysPerCall) {
+    const batch = keys.slice(i, i + maxKeysPerCall);
+    const response = await s3Client.send(
+      new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: { Objects: batch.map((key) => ({ Key: key })), Quiet: false },
+      })
+    );
+
+    for (const item of response.Deleted ?? []) {
+      if (item.Key) result.deleted.push(item.Key);
+    }
+    for (const item of response.Errors ?? []) {
+      if (item.Key) result.errors.push({ key: item.Key, code: item.Code, message: item.Message });
+    }
+  }
+
+  return result;
+}
+
+export async function getBucketVersioningStatus(bucket: string): Promise<VersioningStatus> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const response = await s3Client.send(new GetBucketVersioningCommand({ Bucket: bucket }));
+  if (response.Status === "Enabled" || response.Status === "Suspended") return response.Status;
+  return "Disabled";
+}
+
+// Versions and delete markers for one exact key, newest first
+export async function listS3ObjectVersions(
+  bucket: string,
+  key: string,
+  maxVersions: number
+): Promise<{ versions: ObjectVersion[]; truncated: boolean }> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const versions: ObjectVersion[] = [];
+  let keyMarker: string | undefined = undefined;
+  let versionIdMarker: string | undefined = undefined;
+
+  // Collect one extra version so truncation can be reported
+  while (versions.length <= maxVersions) {
+    const response = (await s3Client.send(
+      new ListObjectVersionsCommand({
+        Bucket: bucket,
+        Prefix: key,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+        MaxKeys: Math.min(1000, maxVersions - versions.length + 1),
+      })
+    )) as ListObjectVersionsCommandOutput;
+
+    // Prefix also matches longer keys, so keep only the exact key
+    for (const item of response.Versions ?? []) {
+      if (item.Key !== key || !item.VersionId) continue;
+      versions.push({
+        versionId: item.VersionId,
+        isLatest: item.IsLatest === true,
+        isDeleteMarker: false,
+        lastModified: toIso(item.LastModified),
+        size: item.Size,
+        etag: item.ETag,
+        storageClass: item.StorageClass,
+      });
+    }
+    for (const item of response.DeleteMarkers ?? []) {
+      if (item.Key !== key || !item.VersionId) continue;
+      versions.push({
+        versionId: item.VersionId,
+        isLatest: item.IsLatest === true,
+        isDeleteMarker: true,
+        lastModified: toIso(item.LastModified),
+      });
+    }
+
+    const nextKeyMarker = response.NextKeyMarker;
+    if (!response.IsTruncated || (nextKeyMarker !== undefined && nextKeyMarker !== key)) break;
+    keyMarker = nextKeyMarker;
+    versionIdMarker = response.NextVersionIdMarker;
+  }
+
+  versions.sort((a, b) => {
+    if (a.isLatest !== b.isLatest) return a.isLatest ? -1 : 1;
+    return (b.lastModified ?? "").localeCompare(a.lastModified ?? "");
+  });
+
+  const truncated = versions.length > maxVersions;
+  return { versions: versions.slice(0, maxVersions), truncated };
+}
+
+// Copies an older version over the key, which makes it the new current version
+export async function restoreS3ObjectVersion(
+  bucket: string,
+  key: string,
+  versionId: string
+): Promise<{ versionId?: string; etag?: string }> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const response = await s3Client.send(
+    new CopyObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      CopySource: `${bucket}/${encodeURIComponent(key)}?versionId=${encodeURIComponent(versionId)}`,
+      MetadataDirective: "COPY",
+    })
+  );
+  return { versionId: response.VersionId, etag: response.CopyObjectResult?.ETag };
+}
+
+export async function assertVersioningEnabled(bucket: string): Promise<VersioningStatus> {
+  const status = await getBucketVersioningStatus(bucket);
+  if (status === "Disabled") {
+    throw s3Error(
+      "VersioningDisabled",
+      `Versioning has never been enabled on bucket "${bucket}", so there is no version history to use.`
+    );
+  }
+  return status;
+}
+
+// CopyObject handles up to 5 GB; larger objects need UploadPartCopy
+const maxSingleCopyBytes = 5 * 1024 ** 3;
+const minCopyPartBytes = 512 * 1024 * 1024;
+const maxCopyParts = 10000;
+const copyPartConcurrency = 4;
+
+function copySourceFor(source: CopySource): string {
+  return `${source.bucket}/${encodeURIComponent(source.key)}`;
+}
+
+// Both paths keep user metadata, tags and storage class. Encryption follows the
+// destination bucket's default, the same as a plain CopyObject.
+export async function copyS3Object(
+  source: CopySource,
+  destinationBucket: string,
+  destinationKey: string
+): Promise<CopyResult> {
+  const s3Client = await getS3ClientForBucket(destinationBucket);
+  const storageClass =
+    source.storageClass && source.storageClass !== "STANDARD"
+      ? (source.storageClass as StorageClass)
+      : undefined;
+
+  if (source.size <= maxSingleCopyBytes) {
+    const response = await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: destinationBucket,
+        Key: destinationKey,
+        CopySource: copySourceFor(source),
+        CopySourceIfMatch: source.etag,
+        MetadataDirective: "COPY",
+        TaggingDirective: "COPY",
+        StorageClass: storageClass,
+      })
+    );
+    return {
+      etag: response.CopyObjectResult?.ETag,
+      versionId: response.VersionId,
+      multipart: false,
+    };
+  }
+
+  const sourceClient = await getS3ClientForBucket(source.bucket);
+  const head = await sourceClient.send(
+    new HeadObjectCommand({ Bucket: source.bucket, Key: source.key, IfMatch: source.etag })
+  );
+  const tagging = await sourceClient.send(
+    new GetObjectTaggingCommand({ Bucket: source.bucket, Key: source.key })
+  );
+  const tags = new URLSearchParams(
+    (tagging.TagSet ?? []).map((tag) => [tag.Key ?? "", tag.Value ?? ""])
+  ).toString();
+
+  const upload = await s3Client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: destinationBucket,
+      Key: destinationKey,
+      Metadata: head.Metadata,
+      ContentType: head.ContentType,
+      ContentEncoding: head.ContentEncoding,
+      ContentDisposition: head.ContentDisposition,
+      ContentLanguage: head.ContentLanguage,
+      CacheControl: head.CacheControl,
+      Expires: head.Expires,
+      Tagging: tags.length > 0 ? tags : undefined,
+      StorageClass: storageClass,
+    })
+  );
+  const uploadId = upload.UploadId;
+  if (!uploadId) {
+    throw s3Error("CopyFailed", `S3 did not start a multipart copy for "${destinationKey}".`);
+  }
+
+  const partSize = Math.max(minCopyPartBytes, Math.ceil(source.size / maxCopyParts));
+  const partCount = Math.ceil(source.size / partSize);
+  const parts: Array<{ PartNumber: number; ETag?: string }> = new Array(partCount);
+
+  try {
+    let nextPart = 0;
+    const worker = async () => {
+      while (nextPart < partCount) {
+        const index = nextPart++;
+        const start = index * partSize;
+        const end = Math.min(start + partSize, source.size) - 1;
+        const response = await s3Client.send(
+          new UploadPartCopyCommand({
+            Bucket: destinationBucket,
+            Key: destinationKey,
+            UploadId: uploadId,
+            PartNumber: index + 1,
+            CopySource: copySourceFor(source),
+            CopySourceRange: `bytes=${start}-${end}`,
+            // Every part must come from the same source version
+            CopySourceIfMatch: head.ETag,
+          })
+        );
+        parts[index] = { PartNumber: index + 1, ETag: response.CopyPartResult?.ETag };
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(copyPartConcurrency, partCount) }, () => worker())
+    );
+
+    const response = await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: destinationBucket,
+        Key: destinationKey,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts },
+      })
+    );
+    return { etag: response.ETag, versionId: response.VersionId, multipart: true };
+  } catch (error) {
+    await s3Client
+      .send(
+        new AbortMultipartUploadCommand({
+          Bucket: destinationBucket,
+          Key: destinationKey,
+          UploadId: uploadId,
+        })
+      )
+      .catch(() => undefined);
+    throw error;
+  }
+}
+
+// Restore header looks like: ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"
+function parseRestoreHeader(header?: string): ObjectDetails["restore"] {
+  if (!header) return undefined;
+  const inProgress = /ongoing-request="true"/.test(header);
+  const expiry = /expiry-date="([^"]+)"/.exec(header)?.[1];
+  const expiresAt = expiry ? toIso(new Date(expiry)) : undefined;
+  return { inProgress, expiresAt };
+}
+
+export async function getObjectTags(
+  bucket: string,
+  key: string,
+  versionId?: string
+): Promise<ObjectTag[]> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const response = await s3Client.send(
+    new GetObjectTaggingCommand({ Bucket: bucket, Key: key, VersionId: versionId })
+  );
+  return (response.TagSet ?? []).map((tag) => ({ key: tag.Key ?? "", value: tag.Value ?? "" }));
+}
+
+// PutObjectTagging replaces the whole tag set, so callers pass the final list
+export async function putObjectTags(bucket: string, key: string, tags: ObjectTag[]) {
+  const s3Client = await getS3ClientForBucket(bucket);
+  if (tags.length === 0) {
+    await s3Client.send(new DeleteObjectTaggingCommand({ Bucket: bucket, Key: key }));
+    return;
+  }
+  await s3Client.send(
+    new PutObjectTaggingCommand({
+      Bucket: bucket,
+      Key: key,
+      Tagging: { TagSet: tags.map((tag) => ({ Key: tag.key, Value: tag.value })) },
+    })
+  );
+}
+
+export async function inspectS3Object(
+  bucket: string,
+  key: string,
+  versionId?: string
+): Promise<ObjectDetails> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const response = await s3Client.send(
+    new HeadObjectCommand({ Bucket: bucket, Key: key, VersionId: versionId })
+  );
+
+  const details: ObjectDetails = {
+    key,
+    size: typeof response.ContentLength === "number" ? response.ContentLength : 0,
+    etag: response.ETag,
+    contentType: response.ContentType,
+    contentEncoding: response.ContentEncoding,
+    cacheControl: response.CacheControl,
+    lastModified: toIso(response.LastModified),
+    versionId: response.VersionId,
+    // HeadObject leaves StorageClass out for STANDARD objects
+    storageClass: response.StorageClass ?? "STANDARD",
+    archiveStatus: response.ArchiveStatus,
+    restore: parseRestoreHeader(response.Restore),
+    serverSideEncryption: response.ServerSideEncryption,
+    kmsKeyId: response.SSEKMSKeyId,
+    bucketKeyEnabled: response.BucketKeyEnabled,
+    metadata: response.Metadata ?? {},
   };
+
+  // Tags need s3:GetObjectTagging, which read-only roles often lack
+  try {
+    details.tags = await getObjectTags(bucket, key, versionId);
+  } catch (error: any) {
+    if (error?.name !== "AccessDenied" && error?.$metadata?.httpStatusCode !== 403) throw error;
+  }
+
+  return details;
+}
+
+// Error codes S3 uses for "this setting has never been configured"
+const notConfiguredCodes = new Set([
+  "NoSuchPublicAccessBlockConfiguration",
+  "ServerSideEncryptionConfigurationNotFoundError",
+  "NoSuchLifecycleConfiguration",
+  "NoSuchBucketPolicy",
+  "OwnershipControlsNotFoundError",
+]);
+
+export async function getBucketSecurityConfig(bucket: string): Promise<BucketSecurityConfig> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  const config: BucketSecurityConfig = {
+    bucket,
+    region: await s3Client.config.region(),
+    unavailable: [],
+  };
+
+  // Each section is read independently so one missing permission does not hide the rest
+  const read = async (section: string, load: () => Promise<void>) => {
+    try {
+      await load();
+    } catch (error: any) {
+      if (notConfiguredCodes.has(error?.name)) return;
+      config.unavailable.push({ section, reason: error?.name ?? error?.message ?? "Unknown error" });
+    }
+  };
+
+  await Promise.all([
+    read("publicAccessBlock", async () => {
+      const response = await s3Client.send(new GetPublicAccessBlockCommand({ Bucket: bucket }));
+      const settings = response.PublicAccessBlockConfiguration ?? {};
+      config.publicAccessBlock = {
+        blockPublicAcls: settings.BlockPublicAcls === true,
+        ignorePublicAcls: settings.IgnorePublicAcls === true,
+        blockPublicPolicy: settings.BlockPublicPolicy === true,
+        restrictPublicBuckets: settings.RestrictPublicBuckets === true,
+      };
+    }),
+    read("encryption", async () => {
+      const response = await s3Client.send(new GetBucketEncryptionCommand({ Bucket: bucket }));
+      const rule = response.ServerSideEncryptionConfiguration?.Rules?.[0];
+      if (!rule) return;
+      config.encryption = {
+        algorithm: rule.ApplyServerSideEncryptionByDefault?.SSEAlgorithm,
+        kmsKeyId: rule.ApplyServerSideEncryptionByDefault?.KMSMasterKeyID,
+        bucketKeyEnabled: rule.BucketKeyEnabled,
+      };
+    }),
+    read("versioning", async () => {
+      const response = await s3Client.send(new GetBucketVersioningCommand({ Bucket: bucket }));
+      config.versioning = {
+        status:
+          response.Status === "Enabled" || response.Status === "Suspended"
+            ? response.Status
+            : "Disabled",
+        mfaDelete: response.MFADelete === "Enabled" ? "Enabled" : "Disabled",
+      };
+    }),
+    read("lifecycle", async () => {
+      config.lifecycleRules = await getBucketLifecycleRules(bucket);
+    }),
+    read("policy", async () => {
+      const response = await s3Client.send(new GetBucketPolicyCommand({ Bucket: bucket }));
+      config.policy = response.Policy;
+    }),
+    read("acl", async () => {
+      const response = await s3Client.send(new GetBucketAclCommand({ Bucket: bucket }));
+      config.aclGrants = (response.Grants ?? []).map((grant) => ({
+        grantee:
+          grant.Grantee?.URI ??
+          grant.Grantee?.EmailAddress ??
+          grant.Grantee?.DisplayName ??
+          grant.Grantee?.ID ??
+          "unknown",
+        permission: grant.Permission ?? "unknown",
+      }));
+    }),
+    read("logging", async () => {
+      const response = await s3Client.send(new GetBucketLoggingCommand({ Bucket: bucket }));
+      const target = response.LoggingEnabled;
+      config.logging = {
+        enabled: target !== undefined,
+        targetBucket: target?.TargetBucket,
+        targetPrefix: target?.TargetPrefix,
+      };
+    }),
+    read("objectOwnership", async () => {
+      const response = await s3Client.send(
+        new GetBucketOwnershipControlsCommand({ Bucket: bucket })
+      );
+      config.objectOwnership = response.OwnershipControls?.Rules?.[0]?.ObjectOwnership;
+    }),
+  ]);
+
+  return config;
+}
+
+export async function getBucketLifecycleRules(bucket: string): Promise<LifecycleRule[]> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  try {
+    const response = await s3Client.send(
+      new GetBucketLifecycleConfigurationCommand({ Bucket: bucket })
+    );
+    return response.Rules ?? [];
+  } catch (error: any) {
+    if (error?.name === "NoSuchLifecycleConfiguration") return [];
+    throw error;
+  }
+}
+
+export async function putBucketLifecycleRules(
+  bucket: string,
+  rules: LifecycleRule[]
+): Promise<void> {
+  const s3Client = await getS3ClientForBucket(bucket);
+  await s3Client.send(
+    new PutBucketLifecycleConfigurationCommand({
+      Bucket: bucket,
+      LifecycleConfiguration: { Rules: rules },
+    })
+  );
 }
 
 export async function listS3ObjectsWithMetaCapped(
@@ -214,6 +1499,7 @@ export async function listS3ObjectsWithMetaCapped(
         size: typeof item.Size === "number" ? item.Size : 0,
         lastModified: toIso(item.LastModified),
         storageClass: item.StorageClass,
+        etag: item.ETag,
       }))
       .filter((meta) => meta.key.length > 0);
 
@@ -0,0 +1,171 @@
+import type { S3ObjectMeta } from "./awsS3.js";
+
+export type StorageClassUsage = {
+  storageClass: string;
+  objects: number;
+  bytes: number;
+};
+
+export type AgeBucketUsage = {
+  label: string;
+  minDays: number;
+  maxDays?: number;
+  objects: number;
+  bytes: number;
+};
+
+export type PrefixNode = {
+  prefix: string;
+  depth: number;
+  totalBytes: number;
+  objectCount: number;
+  omittedChildren: number;
+  oldestLastModified?: string;
+  newestLastModified?: string;
+  storageClasses: StorageClassUsage[];
+  ageHistogram: AgeBucketUsage[];
+};
+
+// Fixed buckets keep the histogram shape identical across calls
+const ageBuckets: Array<{ label: string; minDays: number; maxDays?: number }> = [
+  { label: "0-7d", minDays: 0, maxDays: 7 },
+  { label: "7-30d", minDays: 7, maxDays: 30 },
+  { label: "30-90d", minDays: 30, maxDays: 90 },
+  { label: "90-180d", minDays: 90, maxDays: 180 },
+  { label: "180-365d", minDays: 180, maxDays: 365 },
+  { label: "365d+", minDays: 365 },
+];
+
+type nodeAccumulator = {
+  prefix: string;
+  depth: number;
+  totalBytes: number;
+  objectCount: number;
+  oldestMs?: number;
+  newestMs?: number;
+  storageClasses: Map<string, StorageClassUsage>;
+  ageHistogram: AgeBucketUsage[];
+  children: Map<string, nodeAccumulator>;
+};
+
+function createAccumulator(prefix: string, depth: number): nodeAccumulator {
+  return {
+    prefix,
+    depth,
+    totalBytes: 0,
+    objectCount: 0,
+    storageClasses: new Map(),
+    ageHistogram: ageBuckets.map((bucket) => ({ ...bucket, objects: 0, bytes: 0 })),
+    children: new Map(),
+  };
+}
+
+function ageBucketIndex(ageDays: number): number {
+  const index = ageBuckets.findIndex(
+    (bucket) => bucket.maxDays === undefined || ageDays < bucket.maxDays
+  );
+  return index === -1 ? ageBuckets.length - 1 : index;
+}
+
+function addObject(
+  node: nodeAccumulator,
+  item: S3ObjectMeta,
+  lastModifiedMs: number | undefined,
+  nowMs: number
+) {
+  node.totalBytes += item.size;
+  node.objectCount += 1;
+
+  const storageClass = item.storageClass ?? "STANDARD";
+  const usage = node.storageClasses.get(storageClass) ?? { storageClass, objects: 0, bytes: 0 };
+  usage.objects += 1;
+  usage.bytes += item.size;
+  node.storageClasses.set(storageClass, usage);
+
+  if (lastModifiedMs !== undefined) {
+    const ageDays = (nowMs - lastModifiedMs) / (24 * 60 * 60 * 1000);
+    const age = node.ageHistogram[ageBucketIndex(ageDays)];
+    age.objects += 1;
+    age.bytes += item.size;
+
+    node.oldestMs = Math.min(node.oldestMs ?? lastModifiedMs, lastModifiedMs);
+    node.newestMs = Math.max(node.newestMs ?? lastModifiedMs, lastModifiedMs);
+  }
+}
+
+// Rolls a flat listing into folder nodes down to maxDepth levels below basePrefix.
+// Returns nodes depth-first, biggest folders first, so the root is always nodes[0].
+// At most maxNodes are returned; they are picked level by level, so a cut drops the
+// smallest and deepest folders first.
+export function buildPrefixTree(
+  items: S3ObjectMeta[],
+  basePrefix: string,
+  maxDepth: number,
+  maxChildrenPerNode: number,
+  maxNodes: number
+): { nodes: PrefixNode[]; truncated: boolean } {
+  const nowMs = Date.now();
+  const root = createAccumulator(basePrefix, 0);
+
+  for (const item of items) {
+    const parsedMs = item.lastModified ? new Date(item.lastModified).getTime() : NaN;
+    const lastModifiedMs = Number.isFinite(parsedMs) ? parsedMs : undefined;
+
+    addObject(root, item, lastModifiedMs, nowMs);
+
+    const segments = item.key.slice(basePrefix.length).split("/");
+    // The last segment is the file name, so only the folders before it become nodes
+    const folderCount = Math.min(segments.length - 1, maxDepth);
+
+    let node = root;
+    let prefix = basePrefix;
+    for (let level = 0; level < folderCount; level++) {
+      prefix += `${segments[level]}/`;
+      let child = node.children.get(prefix);
+      if (!child) {
+        child = createAccumulator(prefix, level + 1);
+        node.children.set(prefix, child);
+      }
+      addObject(child, item, lastModifiedMs, nowMs);
+      node = child;
+    }
+  }
+
+  const keptChildren = (node: nodeAccumulator) =>
+    [...node.children.values()]
+      .sort((a, b) => b.totalBytes - a.totalBytes)
+      .slice(0, maxChildrenPerNode);
+
+  const selected = new Set<nodeAccumulator>();
+  const queue = [root];
+  while (queue.length > 0 && selected.size < maxNodes) {
+    const node = queue.shift()!;
+    selected.add(node);
+    queue.push(...keptChildren(node));
+  }
+
+  const nodes: PrefixNode[] = [];
+
+  const visit = (node: nodeAccumulator) => {
+    const kept = keptChildren(node).filter((child) => selected.has(child));
+
+    nodes.push({
+      prefix: node.prefix,
+      depth: node.depth,
+      totalBytes: node.totalBytes,
+      objectCount: node.objectCount,
+      omittedChildren: node.children.size - kept.length,
+      oldestLastModified:
+        node.oldestMs === undefined ? undefined : new Date(node.oldestMs).toISOString(),
+      newestLastModified:
+        node.newestMs === undefined ? undefined : new Date(node.newestMs).toISOString(),
+      storageClasses: [...node.storageClasses.values()].sort((a, b) => b.bytes - a.bytes),
+      ageHistogram: node.ageHistogram,
+    });
+
+    for (const child of kept) visit(child);
+  };
+  visit(root);
+
+  return { nodes, truncated: queue.length > 0 };
+}
@@ -0,0 +1,222 @@
+import zlib from "node:zlib";
+import { PassThrough, type Transform } from "node:stream";
+
+// Compression and zip helpers for S3 objects. Nothing here talks to S3 directly:
+// callers pass streams or a ranged reader so zip archives never need a full download.
+
+export type CompressionKind = "gzip" | "zstd" | "zip";
+
+export type ZipEntry = {
+  name: string;
+  method: number;
+  compressedBytes: number;
+  uncompressedBytes: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+  isDirectory: boolean;
+  lastModified?: string;
+};
+
+export type RangeReader = (start: number, end: number) => Promise<Buffer>;
+
+function archiveError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+export function detectCompressionFromHeaders(
+  key: string,
+  contentEncoding?: string
+): CompressionKind | undefined {
+  const encoding = (contentEncoding ?? "").toLowerCase();
+  if (encoding.includes("gzip")) return "gzip";
+  if (encoding.includes("zstd")) return "zstd";
+
+  const lowerKey = key.toLowerCase();
+  if (lowerKey.endsWith(".gz") || lowerKey.endsWith(".gzip")) return "gzip";
+  if (lowerKey.endsWith(".zst") || lowerKey.endsWith(".zstd")) return "zstd";
+  if (lowerKey.endsWith(".zip")) return "zip";
+  return undefined;
+}
+
+export function detectCompressionFromMagic(firstBytes: Buffer): CompressionKind | undefined {
+  if (firstBytes.length >= 2 && firstBytes[0] === 0x1f && firstBytes[1] === 0x8b) return "gzip";
+  if (firstBytes.length >= 4 && firstBytes.readUInt32LE(0) === 0xfd2fb528) return "zstd";
+  if (firstBytes.length >= 4 && firstBytes.readUInt32LE(0) === 0x04034b50) return "zip";
+  return undefined;
+}
+
+export function createDecompressor(kind: "gzip" | "zstd"): Transform {
+  if (kind === "gzip") return zlib.createGunzip();
+
+  // zstd landed in node:zlib in Node 22.15, so Node 20 and early 22 releases lack it
+  if (!("createZstdDecompress" in zlib)) {
+    throw archiveError(
+      "UnsupportedCompression",
+      `zstd decompression needs Node 22.15 or newer (running ${process.version}).`
+    );
+  }
+  return zlib.createZstdDecompress();
+}
+
+function dosDateTimeToIso(time: number, date: number): string | undefined {
+  if (date === 0) return undefined;
+  const year = 1980 + (date >> 9);
+  const month = ((date >> 5) & 0x0f) - 1;
+  const day = date & 0x1f;
+  const hours = time >> 11;
+  const minutes = (time >> 5) & 0x3f;
+  const seconds = (time & 0x1f) * 2;
+  const parsed = new Date(Date.UTC(year, month, day, hours, minutes, seconds));
+  return Number.isFinite(parsed.getTime()) ? parsed.toISOString() : undefined;
+}
+
+type centralDirectoryLocation = { offset: number; size: number; entries: number };
+
+async function locateCentralDirectory(
+  readRange: RangeReader,
+  totalBytes: number
+): Promise<centralDirectoryLocation> {
+  // End of central directory record is 22 bytes plus an optional comment of up to 64 KB
+  const tailLength = Math.min(totalBytes, 22 + 0xffff);
+  const tailStart = totalBytes - tailLength;
+  const tail = await readRange(tailStart, totalBytes - 1);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw archiveError("InvalidZip", "Could not find the zip central directory.");
+  }
+
+  const entries = tail.readUInt16LE(eocd + 10);
+  const size = tail.readUInt32LE(eocd + 12);
+  const offset = tail.readUInt32LE(eocd + 16);
+
+  if (entries !== 0xffff && size !== 0xffffffff && offset !== 0xffffffff) {
+    return { offset, size, entries };
+  }
+
+  // ZIP64: the locator sits right before the classic record
+  const locator = eocd - 20;
+  if (locator < 0 || tail.readUInt32LE(locator) !== 0x07064b50) {
+    throw archiveError("InvalidZip", "Zip64 archive is missing its end of central directory locator.");
+  }
+  const zip64Offset = Number(tail.readBigUInt64LE(locator + 8));
+  const record = await readRange(zip64Offset, zip64Offset + 55);
+  if (record.readUInt32LE(0) !== 0x06064b50) {
+    throw archiveError("InvalidZip", "Zip64 end of central directory record is corrupt.");
+  }
+
+  return {
+    entries: Number(record.readBigUInt64LE(32)),
+    size: Number(record.readBigUInt64LE(40)),
+    offset: Number(record.readBigUInt64LE(48)),
+  };
+}
+
+export async function readZipEntries(
+  readRange: RangeReader,
+  totalBytes: number,
+  maxCentralDirectoryBytes: number
+): Promise<ZipEntry[]> {
+  const location = await locateCentralDirectory(readRange, totalBytes);
+  if (location.size > maxCentralDirectoryBytes) {
+    throw archiveError(
+      "ZipTooLarge",
+      `Zip central directory is ${location.size} bytes, above the ${maxCentralDirectoryBytes} byte limit.`
+    );
+  }
+  if (location.size === 0) return [];
+
+  const directory = await readRange(location.offset, location.offset + location.size - 1);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  while (position + 46 <= directory.length && directory.readUInt32LE(position) === 0x02014b50) {
+    const flags = directory.readUInt16LE(position + 8);
+    const method = directory.readUInt16LE(position + 10);
+    const time = directory.readUInt16LE(position + 12);
+    const date = directory.readUInt16LE(position + 14);
+    let compressedBytes = directory.readUInt32LE(position + 20);
+    let uncompressedBytes = directory.readUInt32LE(position + 24);
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    let localHeaderOffset = directory.readUInt32LE(position + 42);
+
+    const nameStart = position + 46;
+    const name = directory
+      .subarray(nameStart, nameStart + nameLength)
+      .toString(flags & 0x0800 ? "utf8" : "latin1");
+
+    // ZIP64 extra field only carries the values that overflowed, in this order
+    let extra = nameStart + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const headerId = directory.readUInt16LE(extra);
+      const dataSize = directory.readUInt16LE(extra + 2);
+      if (headerId === 0x0001) {
+        let field = extra + 4;
+        if (uncompressedBytes === 0xffffffff) {
+          uncompressedBytes = Number(directory.readBigUInt64LE(field));
+          field += 8;
+        }
+        if (compressedBytes === 0xffffffff) {
+          compressedBytes = Number(directory.readBigUInt64LE(field));
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(directory.readBigUInt64LE(field));
+        }
+      }
+      extra += 4 + dataSize;
+    }
+
+    entries.push({
+      name,
+      method,
+      compressedBytes,
+      uncompressedBytes,
+      localHeaderOffset,
+      encrypted: (flags & 0x0001) !== 0,
+      isDirectory: name.endsWith("/"),
+      lastModified: dosDateTimeToIso(time, date),
+    });
+
+    position = extraEnd + commentLength;
+  }
+
+  return entries;
+}
+
+// Byte range of the entry's compressed data, found through its local file header
+export async function locateZipEntryData(
+  readRange: RangeReader,
+  entry: ZipEntry
+): Promise<{ start: number; end: number }> {
+  const header = await readRange(entry.localHeaderOffset, entry.localHeaderOffset + 29);
+  if (header.readUInt32LE(0) !== 0x04034b50) {
+    throw archiveError("InvalidZip", `Local header for "${entry.name}" is corrupt.`);
+  }
+  const start =
+    entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  return { start, end: start + entry.compressedBytes - 1 };
+}
+
+export function createZipEntryDecoder(entry: ZipEntry): Transform {
+  if (entry.encrypted) {
+    throw archiveError("UnsupportedCompression", `Zip entry "${entry.name}" is encrypted.`);
+  }
+  if (entry.method === 0) return new PassThrough();
+  if (entry.method === 8) return zlib.createInflateRaw();
+  throw archiveError(
+    "UnsupportedCompression",
+    `Zip entry "${entry.name}" uses compression method ${entry.method}; only stored and deflate are supported.`
+  );
+}
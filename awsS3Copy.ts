@@ -0,0 +1,225 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  getTextObject,
+  putTextObject,
+  copyS3Object,
+  headS3ObjectIfExists,
+  deleteS3ObjectIfMatch,
+  agentReservedPrefix,
+  type ObjectHead,
+} from "./awsS3.js";
+
+// Copy and move jobs keep a JSON manifest in the destination bucket with one entry per
+// object. Re-running a job skips finished entries, so an interrupted job can be resumed.
+export const copyJobPrefix = `${agentReservedPrefix}copy-jobs/`;
+
+export type CopyItemStatus =
+  | "pending"
+  | "copied"
+  | "moved"
+  | "already-present"
+  | "exists"
+  | "failed"
+  | "refused";
+
+export type CopyJobItem = {
+  sourceKey: string;
+  destinationKey: string;
+  size: number;
+  etag?: string;
+  storageClass?: string;
+  // What this job wrote at the destination; a move only deletes the source while the
+  // destination still holds exactly that object
+  destinationEtag?: string;
+  destinationVersionId?: string;
+  status: CopyItemStatus;
+  code?: string;
+  message?: string;
+};
+
+export type CopyJob = {
+  jobId: string;
+  sourceBucket: string;
+  destinationBucket: string;
+  move: boolean;
+  overwrite: boolean;
+  createdAt: string;
+  updatedAt: string;
+  status: "running" | "completed";
+  items: CopyJobItem[];
+};
+
+const copyConcurrency = 4;
+const manifestSaveEvery = 25;
+
+function copyJobError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+function manifestKeyFor(jobId: string): string {
+  return `${copyJobPrefix}${jobId}.json`;
+}
+
+// A move only finishes once the source is gone, so copied entries still have work left
+function needsWork(job: CopyJob, item: CopyJobItem): boolean {
+  if (item.status === "pending" || item.status === "failed") return true;
+  return job.move && (item.status === "copied" || item.status === "already-present");
+}
+
+export function mapPrefixKey(key: string, sourcePrefix: string, destinationPrefix: string): string {
+  return `${destinationPrefix}${key.slice(sourcePrefix.length)}`;
+}
+
+export async function saveCopyJob(job: CopyJob): Promise<string> {
+  const manifestKey = manifestKeyFor(job.jobId);
+  job.updatedAt = new Date().toISOString();
+  await putTextObject(
+    job.destinationBucket,
+    manifestKey,
+    JSON.stringify(job, null, 2),
+    "application/json"
+  );
+  return manifestKey;
+}
+
+export function newCopyJob(
+  sourceBucket: string,
+  destinationBucket: string,
+  move: boolean,
+  overwrite: boolean,
+  items: CopyJobItem[]
+): CopyJob {
+  const now = new Date().toISOString();
+  return {
+    jobId: randomUUID(),
+    sourceBucket,
+    destinationBucket,
+    move,
+    overwrite,
+    createdAt: now,
+    updatedAt: now,
+    status: "running",
+    items,
+  };
+}
+
+export async function loadCopyJob(destinationBucket: string, jobId: string): Promise<CopyJob> {
+  if (!/^[0-9a-f-]{36}$/.test(jobId)) {
+    throw copyJobError("CopyJobNotFound", `"${jobId}" is not a copy job id.`);
+  }
+  try {
+    const manifest = await getTextObject(destinationBucket, manifestKeyFor(jobId));
+    return JSON.parse(manifest.content) as CopyJob;
+  } catch (error: any) {
+    if (error?.name === "NoSuchKey") {
+      throw copyJobError(
+        "CopyJobNotFound",
+        `No copy job ${jobId} exists in bucket "${destinationBucket}".`
+      );
+    }
+    throw error;
+  }
+}
+
+// True while the destination holds the object this job recorded for the item. Version
+// IDs are compared when both sides have one (versioned buckets).
+function isRecordedCopy(item: CopyJobItem, existing: ObjectHead | undefined): boolean {
+  if (!existing || !item.destinationEtag || existing.etag !== item.destinationEtag) return false;
+  if (item.destinationVersionId && existing.versionId) {
+    return existing.versionId === item.destinationVersionId;
+  }
+  return true;
+}
+
+async function processItem(job: CopyJob, item: CopyJobItem): Promise<void> {
+  try {
+    if (item.status === "pending" || item.status === "failed") {
+      const existing = await headS3ObjectIfExists(job.destinationBucket, item.destinationKey);
+
+      // Either this job's own earlier copy, or an object with the source's ETag (a
+      // single-part copy keeps it). Anything else is someone else's object.
+      const matches =
+        existing !== undefined &&
+        existing.size === item.size &&
+        (isRecordedCopy(item, existing) || existing.etag === item.etag);
+
+      if (matches) {
+        item.status = "already-present";
+        item.destinationEtag = existing.etag;
+        item.destinationVersionId = existing.versionId;
+      } else if (existing && !job.overwrite) {
+        item.status = "exists";
+        item.message =
+          "Destination already exists with different content. Set overwrite to replace it.";
+        return;
+      } else {
+        const copied = await copyS3Object(
+          {
+            bucket: job.sourceBucket,
+            key: item.sourceKey,
+            size: item.size,
+            etag: item.etag,
+            storageClass: item.storageClass,
+          },
+          job.destinationBucket,
+          item.destinationKey
+        );
+        item.status = "copied";
+        item.destinationEtag = copied.etag;
+        item.destinationVersionId = copied.versionId;
+      }
+      item.code = undefined;
+      item.message = undefined;
+    }
+
+    if (job.move && (item.status === "copied" || item.status === "already-present")) {
+      const current = await headS3ObjectIfExists(job.destinationBucket, item.destinationKey);
+      if (!isRecordedCopy(item, current)) {
+        item.status = "failed";
+        item.code = "DestinationChanged";
+        item.message =
+          "The destination no longer holds the copied object, so the source was not deleted.";
+        return;
+      }
+      await deleteS3ObjectIfMatch(job.sourceBucket, item.sourceKey, item.etag);
+      item.status = "moved";
+    }
+  } catch (error: any) {
+    item.status = "failed";
+    item.code = error?.name ?? error?.Code;
+    item.message = error?.message ?? "Copy failed";
+  }
+}
+
+// Works through unfinished entries until done or the deadline passes, saving the
+// manifest as it goes. Returns true when nothing is left to do.
+export async function runCopyJob(job: CopyJob, deadlineMs: number): Promise<boolean> {
+  const queue = job.items.filter((item) => needsWork(job, item));
+  let nextIndex = 0;
+  let sinceSave = 0;
+
+  const worker = async () => {
+    while (nextIndex < queue.length && Date.now() < deadlineMs) {
+      const item = queue[nextIndex++];
+      await processItem(job, item);
+
+      sinceSave++;
+      if (sinceSave >= manifestSaveEvery) {
+        sinceSave = 0;
+        await saveCopyJob(job);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(copyConcurrency, queue.length) }, () => worker())
+  );
+
+  // Failed entries are retried on the next run but do not keep the job running
+  const done = !job.items.some((item) => item.status !== "failed" && needsWork(job, item));
+  job.status = done ? "completed" : "running";
+  await saveCopyJob(job);
+  return done;
+}
@@ -0,0 +1,182 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+
+import {
+  getTextObject,
+  putTextObject,
+  deleteS3ObjectsBatched,
+  isPreconditionFailure,
+  agentReservedPrefix,
+  type OldObject,
+} from "./awsS3.js";
+
+// Deletion plans are JSON manifests stored in the target bucket. Only a hash of the
+// confirmation token is stored, so reading the manifest is not enough to execute it.
+export const deletionPlanPrefix = `${agentReservedPrefix}deletion-plans/`;
+
+export type DeletionPlan = {
+  planId: string;
+  bucket: string;
+  prefix: string;
+  olderThanDays: number;
+  createdAt: string;
+  expiresAt: string;
+  status: "pending" | "executed";
+  executedAt?: string;
+  tokenHash: string;
+  totalBytes: number;
+  objects: Array<{ key: string; size: number; lastModified?: string }>;
+};
+
+// The manifest ETag seen at load time; executing writes only over that exact version
+export type LoadedDeletionPlan = DeletionPlan & { manifestEtag?: string };
+
+export type DeletionOutcome = {
+  key: string;
+  status: "deleted" | "failed" | "refused";
+  code?: string;
+  message?: string;
+};
+
+function deletionPlanError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function manifestKeyFor(planId: string): string {
+  return `${deletionPlanPrefix}${planId}.json`;
+}
+
+export async function createDeletionPlan(
+  bucket: string,
+  prefix: string,
+  olderThanDays: number,
+  objects: OldObject[],
+  expiresInSeconds: number
+): Promise<{ plan: DeletionPlan; manifestKey: string; confirmationToken: string }> {
+  const planId = randomUUID();
+  const secret = randomBytes(24).toString("base64url");
+  const now = Date.now();
+
+  const plan: DeletionPlan = {
+    planId,
+    bucket,
+    prefix,
+    olderThanDays,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + expiresInSeconds * 1000).toISOString(),
+    status: "pending",
+    tokenHash: hashToken(secret),
+    totalBytes: objects.reduce((sum, item) => sum + item.size, 0),
+    objects: objects.map((item) => ({
+      key: item.key,
+      size: item.size,
+      lastModified: item.lastModified,
+    })),
+  };
+
+  const manifestKey = manifestKeyFor(planId);
+  await putTextObject(bucket, manifestKey, JSON.stringify(plan, null, 2), "application/json");
+
+  // Token carries the plan id so the execute call only needs the token
+  return { plan, manifestKey, confirmationToken: `${planId}.${secret}` };
+}
+
+export async function loadDeletionPlanForToken(
+  bucket: string,
+  confirmationToken: string
+): Promise<LoadedDeletionPlan> {
+  const [planId, secret] = confirmationToken.trim().split(".");
+  if (!planId || !secret || !/^[0-9a-f-]{36}$/.test(planId)) {
+    throw deletionPlanError("DeletionTokenInvalid", "The confirmation token is malformed.");
+  }
+
+  let plan: LoadedDeletionPlan;
+  try {
+    const manifest = await getTextObject(bucket, manifestKeyFor(planId));
+    plan = { ...(JSON.parse(manifest.content) as DeletionPlan), manifestEtag: manifest.etag };
+  } catch (error: any) {
+    if (error?.name === "NoSuchKey") {
+      throw deletionPlanError(
+        "DeletionPlanNotFound",
+        `No deletion plan ${planId} exists in bucket "${bucket}".`
+      );
+    }
+    throw error;
+  }
+
+  const expected = Buffer.from(plan.tokenHash ?? "", "hex");
+  const actual = Buffer.from(hashToken(secret), "hex");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw deletionPlanError("DeletionTokenInvalid", "The confirmation token does not match the plan.");
+  }
+
+  if (plan.status !== "pending") {
+    throw deletionPlanError(
+      "DeletionPlanAlreadyExecuted",
+      `Deletion plan ${planId} was already executed at ${plan.executedAt ?? "an earlier time"}.`
+    );
+  }
+
+  if (Date.parse(plan.expiresAt) <= Date.now()) {
+    throw deletionPlanError(
+      "DeletionPlanExpired",
+      `Deletion plan ${planId} expired at ${plan.expiresAt}. Create a new plan.`
+    );
+  }
+
+  return plan;
+}
+
+export async function executeDeletionPlan(
+  plan: LoadedDeletionPlan,
+  keys: string[]
+): Promise<DeletionOutcome[]> {
+  const { manifestEtag, ...stored } = plan;
+  if (!manifestEtag) {
+    throw deletionPlanError(
+      "DeletionPlanConflict",
+      `Deletion plan ${plan.planId} has no ETag, so it cannot be marked executed safely.`
+    );
+  }
+
+  // Mark the plan used before deleting so the token cannot be replayed. The write only
+  // succeeds over the manifest we loaded, so of two concurrent calls only one deletes.
+  const executedPlan: DeletionPlan = {
+    ...stored,
+    status: "executed",
+    executedAt: new Date().toISOString(),
+  };
+  try {
+    await putTextObject(
+      plan.bucket,
+      manifestKeyFor(plan.planId),
+      JSON.stringify(executedPlan, null, 2),
+      "application/json",
+      { ifMatch: manifestEtag }
+    );
+  } catch (error: any) {
+    if (!isPreconditionFailure(error)) throw error;
+    throw deletionPlanError(
+      "DeletionPlanAlreadyExecuted",
+      `Deletion plan ${plan.planId} was executed by another call at the same time. Nothing was deleted by this call.`
+    );
+  }
+
+  if (keys.length === 0) return [];
+
+  const result = await deleteS3ObjectsBatched(plan.bucket, keys);
+  const deleted = new Set(result.deleted);
+  const errorsByKey = new Map(result.errors.map((item) => [item.key, item]));
+
+  return keys.map((key): DeletionOutcome => {
+    const error = errorsByKey.get(key);
+    if (error) return { key, status: "failed", code: error.code, message: error.message };
+    if (deleted.has(key)) return { key, status: "deleted" };
+    return { key, status: "failed", message: "S3 did not report a result for this key." };
+  });
+}
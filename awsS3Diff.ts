@@ -0,0 +1,125 @@
+import type { S3ObjectMeta } from "./awsS3.js";
+
+// Compares two listings by key relative to their prefixes. ETags are only compared when
+// sizes match; multipart uploads get "-<parts>" ETags that differ from a single-part
+// upload of the same bytes, so those mismatches are flagged as possibly benign.
+
+export type DiffEntry = {
+  relativeKey: string;
+  sourceSize?: number;
+  destinationSize?: number;
+  sourceEtag?: string;
+  destinationEtag?: string;
+  multipartEtag?: boolean;
+};
+
+export type DiffCategory = {
+  count: number;
+  bytes: number;
+  sample: DiffEntry[];
+};
+
+export type PrefixDiff = {
+  onlyInSource: DiffCategory;
+  onlyInDestination: DiffCategory;
+  sizeMismatch: DiffCategory;
+  etagMismatch: DiffCategory;
+  identicalCount: number;
+  identicalBytes: number;
+  // Relative keys a copy from source to destination would need to write
+  keysToCopy: string[];
+  keysToCopyTruncated: boolean;
+};
+
+function emptyCategory(): DiffCategory {
+  return { count: 0, bytes: 0, sample: [] };
+}
+
+function addEntry(category: DiffCategory, entry: DiffEntry, bytes: number, maxSample: number) {
+  category.count++;
+  category.bytes += bytes;
+  if (category.sample.length < maxSample) category.sample.push(entry);
+}
+
+function isMultipartEtag(etag?: string): boolean {
+  return etag !== undefined && /-\d+"?$/.test(etag);
+}
+
+export function diffListings(
+  sourceItems: S3ObjectMeta[],
+  sourcePrefix: string,
+  destinationItems: S3ObjectMeta[],
+  destinationPrefix: string,
+  maxSample: number,
+  maxKeysToCopy: number
+): PrefixDiff {
+  const destinationByKey = new Map(
+    destinationItems.map((item) => [item.key.slice(destinationPrefix.length), item])
+  );
+
+  const diff: PrefixDiff = {
+    onlyInSource: emptyCategory(),
+    onlyInDestination: emptyCategory(),
+    sizeMismatch: emptyCategory(),
+    etagMismatch: emptyCategory(),
+    identicalCount: 0,
+    identicalBytes: 0,
+    keysToCopy: [],
+    keysToCopyTruncated: false,
+  };
+
+  const needsCopy = (relativeKey: string) => {
+    if (diff.keysToCopy.length < maxKeysToCopy) diff.keysToCopy.push(relativeKey);
+    else diff.keysToCopyTruncated = true;
+  };
+
+  const seen = new Set<string>();
+  for (const source of sourceItems) {
+    const relativeKey = source.key.slice(sourcePrefix.length);
+    seen.add(relativeKey);
+    const destination = destinationByKey.get(relativeKey);
+
+    if (!destination) {
+      addEntry(
+        diff.onlyInSource,
+        { relativeKey, sourceSize: source.size, sourceEtag: source.etag },
+        source.size,
+        maxSample
+      );
+      needsCopy(relativeKey);
+      continue;
+    }
+
+    const entry: DiffEntry = {
+      relativeKey,
+      sourceSize: source.size,
+      destinationSize: destination.size,
+      sourceEtag: source.etag,
+      destinationEtag: destination.etag,
+    };
+
+    if (source.size !== destination.size) {
+      addEntry(diff.sizeMismatch, entry, source.size, maxSample);
+      needsCopy(relativeKey);
+    } else if (source.etag !== destination.etag) {
+      entry.multipartEtag = isMultipartEtag(source.etag) || isMultipartEtag(destination.etag);
+      addEntry(diff.etagMismatch, entry, source.size, maxSample);
+      needsCopy(relativeKey);
+    } else {
+      diff.identicalCount++;
+      diff.identicalBytes += source.size;
+    }
+  }
+
+  for (const [relativeKey, destination] of destinationByKey) {
+    if (seen.has(relativeKey)) continue;
+    addEntry(
+      diff.onlyInDestination,
+      { relativeKey, destinationSize: destination.size, destinationEtag: destination.etag },
+      destination.size,
+      maxSample
+    );
+  }
+
+  return diff;
+}
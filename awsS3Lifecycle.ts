@@ -0,0 +1,273 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { LifecycleRule, TransitionStorageClass } from "@aws-sdk/client-s3";
+
+import { overlapsReservedPrefix, type S3ObjectMeta } from "./awsS3.js";
+
+// Storage prices come from assets/s3-pricing.json. S3_PRICING_FILE can point at a
+// JSON file with the same shape; its values are merged over the bundled table.
+
+const storageClassPriceSchema = z.object({
+  gbMonth: z.number().nonnegative(),
+  minBillableBytes: z.number().int().nonnegative().optional(),
+  minStorageDays: z.number().int().nonnegative().optional(),
+  overheadBytes: z.number().int().nonnegative().optional(),
+  overheadStandardBytes: z.number().int().nonnegative().optional(),
+  transitionPer1000: z.number().nonnegative().optional(),
+  defaultTransitionDays: z.number().int().positive().optional(),
+});
+
+const pricingSchema = z.object({
+  version: z.string(),
+  region: z.string(),
+  currency: z.string(),
+  storageClasses: z.record(storageClassPriceSchema),
+});
+
+// An override file may replace any top-level field and patch single storage class prices
+const pricingOverrideSchema = pricingSchema.partial().extend({
+  storageClasses: z.record(storageClassPriceSchema.partial()).optional(),
+});
+
+export type S3Pricing = z.infer<typeof pricingSchema>;
+
+// Rules this agent writes carry this ID prefix; it never replaces rules without it
+export const agentRuleIdPrefix = "daemo-";
+
+export const transitionTargets = ["STANDARD_IA", "GLACIER_IR", "GLACIER", "DEEP_ARCHIVE"] as const;
+export type TransitionTarget = (typeof transitionTargets)[number];
+
+export type TransitionOption = {
+  storageClass: TransitionTarget;
+  transitionDays: number;
+  eligibleObjects: number;
+  eligibleBytes: number;
+  currentMonthlyCost: number;
+  projectedMonthlyCost: number;
+  monthlySavings: number;
+  transitionCost: number;
+  minStorageDays?: number;
+};
+
+export type LifecycleRuleSpec = {
+  id: string;
+  prefix: string;
+  minSizeBytes: number;
+  transitionDays: number;
+  storageClass: TransitionTarget;
+};
+
+export type PrefixRecommendation = {
+  prefix: string;
+  objectCount: number;
+  totalBytes: number;
+  currentMonthlyCost: number;
+  options: TransitionOption[];
+  recommended?: TransitionTarget;
+  rule?: LifecycleRuleSpec;
+};
+
+const bytesPerGb = 1024 * 1024 * 1024;
+
+// Lifecycle rules only move objects toward colder classes
+const storageClassRank: Record<string, number> = {
+  STANDARD: 0,
+  REDUCED_REDUNDANCY: 0,
+  INTELLIGENT_TIERING: 1,
+  STANDARD_IA: 1,
+  ONEZONE_IA: 1,
+  GLACIER_IR: 2,
+  GLACIER: 3,
+  DEEP_ARCHIVE: 4,
+};
+
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function loadS3Pricing(overridePath?: string): S3Pricing {
+  const bundled = JSON.parse(
+    readFileSync(new URL("./assets/s3-pricing.json", import.meta.url), "utf8")
+  );
+
+  let merged = bundled;
+  if (overridePath && overridePath.trim().length > 0) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(overridePath.trim(), "utf8"));
+    } catch (error: any) {
+      throw new Error(`Could not read S3_PRICING_FILE "${overridePath}": ${error?.message ?? error}`);
+    }
+
+    const override = pricingOverrideSchema.safeParse(raw);
+    if (!override.success) {
+      throw new Error(`Invalid S3_PRICING_FILE "${overridePath}": ${override.error.message}`);
+    }
+
+    const storageClasses = { ...bundled.storageClasses };
+    for (const [name, price] of Object.entries(override.data.storageClasses ?? {})) {
+      storageClasses[name] = { ...(storageClasses[name] ?? {}), ...price };
+    }
+    merged = { ...bundled, ...override.data, storageClasses };
+  }
+
+  const parsed = pricingSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new Error(`Invalid S3 pricing table: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export function monthlyStorageCost(
+  sizeBytes: number,
+  storageClass: string,
+  pricing: S3Pricing
+): number {
+  const standard = pricing.storageClasses.STANDARD;
+  const price = pricing.storageClasses[storageClass] ?? standard;
+
+  // Small objects are billed at a minimum size; archive classes add per-object index overhead
+  const billableBytes = Math.max(sizeBytes, price.minBillableBytes ?? 0) + (price.overheadBytes ?? 0);
+  let cost = (billableBytes / bytesPerGb) * price.gbMonth;
+  if (price.overheadStandardBytes && standard) {
+    cost += (price.overheadStandardBytes / bytesPerGb) * standard.gbMonth;
+  }
+  return cost;
+}
+
+function ruleIdFor(prefix: string, storageClass: TransitionTarget): string {
+  return `${agentRuleIdPrefix}${prefix.length > 0 ? prefix : "bucket-root"}-${storageClass}`;
+}
+
+export function recommendForPrefix(
+  items: S3ObjectMeta[],
+  prefix: string,
+  pricing: S3Pricing,
+  minSizeBytes: number,
+  transitionDaysOverride: Partial<Record<TransitionTarget, number>> = {}
+): PrefixRecommendation {
+  const nowMs = Date.now();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  const objects = items.map((item) => {
+    const lastModifiedMs = item.lastModified ? new Date(item.lastModified).getTime() : NaN;
+    return {
+      size: item.size,
+      storageClass: item.storageClass ?? "STANDARD",
+      ageDays: Number.isFinite(lastModifiedMs) ? (nowMs - lastModifiedMs) / dayMs : undefined,
+    };
+  });
+
+  const options: TransitionOption[] = [];
+
+  for (const target of transitionTargets) {
+    const price = pricing.storageClasses[target];
+    if (!price) continue;
+
+    const transitionDays =
+      transitionDaysOverride[target] ?? price.defaultTransitionDays ?? price.minStorageDays ?? 30;
+
+    let eligibleObjects = 0;
+    let eligibleBytes = 0;
+    let currentMonthlyCost = 0;
+    let projectedMonthlyCost = 0;
+
+    for (const object of objects) {
+      if (object.size < minSizeBytes) continue;
+      if (object.ageDays === undefined || object.ageDays < transitionDays) continue;
+      if ((storageClassRank[object.storageClass] ?? 0) >= storageClassRank[target]) continue;
+
+      eligibleObjects++;
+      eligibleBytes += object.size;
+      currentMonthlyCost += monthlyStorageCost(object.size, object.storageClass, pricing);
+      projectedMonthlyCost += monthlyStorageCost(object.size, target, pricing);
+    }
+
+    options.push({
+      storageClass: target,
+      transitionDays,
+      eligibleObjects,
+      eligibleBytes,
+      currentMonthlyCost: roundCost(currentMonthlyCost),
+      projectedMonthlyCost: roundCost(projectedMonthlyCost),
+      monthlySavings: roundCost(currentMonthlyCost - projectedMonthlyCost),
+      transitionCost: roundCost((eligibleObjects / 1000) * (price.transitionPer1000 ?? 0)),
+      minStorageDays: price.minStorageDays,
+    });
+  }
+
+  // Best first-year outcome wins, so one-off transition request fees are accounted for
+  const firstYearNet = (option: TransitionOption) =>
+    option.monthlySavings * 12 - option.transitionCost;
+  const best = options
+    .filter((option) => option.eligibleObjects > 0 && firstYearNet(option) > 0)
+    .sort((a, b) => firstYearNet(b) - firstYearNet(a))[0];
+
+  return {
+    prefix,
+    objectCount: objects.length,
+    totalBytes: objects.reduce((total, object) => total + object.size, 0),
+    currentMonthlyCost: roundCost(
+      objects.reduce(
+        (total, object) => total + monthlyStorageCost(object.size, object.storageClass, pricing),
+        0
+      )
+    ),
+    options,
+    recommended: best?.storageClass,
+    // A rule there would also archive the agent's own plans and backups
+    rule:
+      best && !overlapsReservedPrefix(prefix)
+        ? {
+            id: ruleIdFor(prefix, best.storageClass),
+            prefix,
+            minSizeBytes,
+            transitionDays: best.transitionDays,
+            storageClass: best.storageClass,
+          }
+        : undefined,
+  };
+}
+
+export function toAwsLifecycleRule(spec: LifecycleRuleSpec): LifecycleRule {
+  return {
+    ID: spec.id,
+    Status: "Enabled",
+    Filter:
+      spec.minSizeBytes > 0
+        ? { And: { Prefix: spec.prefix, ObjectSizeGreaterThan: spec.minSizeBytes } }
+        : { Prefix: spec.prefix },
+    Transitions: [
+      {
+        Days: spec.transitionDays,
+        StorageClass: spec.storageClass as TransitionStorageClass,
+      },
+    ],
+  };
+}
+
+// Replaces existing rules with the same ID and keeps every other rule untouched. Only
+// IDs in the agent's namespace are accepted, so rules someone else wrote are never replaced.
+export function mergeLifecycleRules(
+  existing: LifecycleRule[],
+  specs: LifecycleRuleSpec[]
+): { rules: LifecycleRule[]; added: string[]; replaced: string[] } {
+  const foreign = specs.find((spec) => !spec.id.startsWith(agentRuleIdPrefix));
+  if (foreign) {
+    const error = new Error(
+      `Rule ID "${foreign.id}" does not start with "${agentRuleIdPrefix}". This agent only adds or replaces its own lifecycle rules.`
+    );
+    error.name = "LifecycleRuleNotOwned";
+    throw error;
+  }
+
+  const incoming = specs.map(toAwsLifecycleRule);
+  const incomingIds = new Set(incoming.map((rule) => rule.ID));
+  const existingIds = new Set(existing.map((rule) => rule.ID));
+
+  return {
+    rules: [...existing.filter((rule) => !incomingIds.has(rule.ID)), ...incoming],
+    added: specs.filter((spec) => !existingIds.has(spec.id)).map((spec) => spec.id),
+    replaced: specs.filter((spec) => existingIds.has(spec.id)).map((spec) => spec.id),
+  };
+}
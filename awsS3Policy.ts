@@ -0,0 +1,269 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+// Prefix-level access rules for S3, loaded from the JSON file in S3_POLICY_FILE.
+//
+// {
+//   "buckets": {
+//     "team-bucket": {
+//       "deny": ["secrets/"],
+//       "read": { "allow": ["logs/**", "reports/"] },
+//       "write": { "allow": ["reports/"], "deny": ["reports/final/"] }
+//     }
+//   }
+// }
+//
+// Patterns without wildcards are key prefixes. "*" matches within one path
+// segment, "**" matches across segments and "?" matches a single character.
+// Deny rules always win. When an operation has an allow list, the key must
+// match one of its patterns; without one, every key not denied is allowed.
+
+export type S3AccessOperation = "read" | "write";
+
+const operationRulesSchema = z.object({
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional().default([]),
+});
+
+const bucketRulesSchema = z.object({
+  deny: z.array(z.string().min(1)).optional().default([]),
+  read: operationRulesSchema.optional(),
+  write: operationRulesSchema.optional(),
+});
+
+const accessPolicySchema = z.object({
+  buckets: z.record(bucketRulesSchema),
+});
+
+export type S3AccessPolicy = z.infer<typeof accessPolicySchema>;
+
+export type S3AccessDecision =
+  | { allowed: true }
+  | { allowed: false; rule: string };
+
+export function loadS3AccessPolicy(filePath?: string): S3AccessPolicy | undefined {
+  if (!filePath || filePath.trim().length === 0) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath.trim(), "utf8"));
+  } catch (error: any) {
+    throw new Error(`Could not read S3_POLICY_FILE "${filePath}": ${error?.message ?? error}`);
+  }
+
+  const parsed = accessPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid S3_POLICY_FILE "${filePath}": ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+function hasWildcard(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesKeyPattern(pattern: string, key: string): boolean {
+  if (!hasWildcard(pattern)) return key.startsWith(pattern);
+  return globToRegExp(pattern).test(key);
+}
+
+// Literal part of a pattern before its first wildcard
+function literalHead(pattern: string): string {
+  const index = pattern.search(/[*?]/);
+  return index === -1 ? pattern : pattern.slice(0, index);
+}
+
+// True when every key under the prefix matches the pattern
+function patternCoversPrefix(pattern: string, prefix: string): boolean {
+  if (!hasWildcard(pattern)) return prefix.startsWith(pattern);
+  if (pattern.endsWith("**") && !hasWildcard(pattern.slice(0, -2))) {
+    return prefix.startsWith(pattern.slice(0, -2));
+  }
+  return false;
+}
+
+// True when at least one key under the prefix could match the pattern
+function patternOverlapsPrefix(pattern: string, prefix: string): boolean {
+  const head = literalHead(pattern);
+  return head.startsWith(prefix) || prefix.startsWith(head);
+}
+
+type namedRule = { pattern: string; source: string };
+
+function denyRulesFor(
+  bucket: string,
+  rules: S3AccessPolicy["buckets"][string],
+  operation: S3AccessOperation
+): namedRule[] {
+  return [
+    ...rules.deny.map((pattern) => ({ pattern, source: `buckets.${bucket}.deny` })),
+    ...(rules[operation]?.deny ?? []).map((pattern) => ({
+      pattern,
+      source: `buckets.${bucket}.${operation}.deny`,
+    })),
+  ];
+}
+
+export function checkS3Access(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  key: string,
+  operation: S3AccessOperation
+): S3AccessDecision {
+  const rules = policy?.buckets[bucket];
+  if (!rules) return { allowed: true };
+
+  const deny = denyRulesFor(bucket, rules, operation).find((rule) =>
+    matchesKeyPattern(rule.pattern, key)
+  );
+  if (deny) {
+    return { allowed: false, rule: `deny rule "${deny.pattern}" (${deny.source})` };
+  }
+
+  const allow = rules[operation]?.allow;
+  if (allow && !allow.some((pattern) => matchesKeyPattern(pattern, key))) {
+    return {
+      allowed: false,
+      rule: `${operation} allow list [${allow.join(", ")}] (buckets.${bucket}.${operation}.allow)`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Prefix-level check for listings: blocks a prefix only when no key under it could be allowed
+export function checkS3PrefixAccess(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  prefix: string,
+  operation: S3AccessOperation
+): S3AccessDecision {
+  const rules = policy?.buckets[bucket];
+  if (!rules) return { allowed: true };
+
+  const deny = denyRulesFor(bucket, rules, operation).find((rule) =>
+    patternCoversPrefix(rule.pattern, prefix)
+  );
+  if (deny) {
+    return { allowed: false, rule: `deny rule "${deny.pattern}" (${deny.source})` };
+  }
+
+  const allow = rules[operation]?.allow;
+  if (allow && !allow.some((pattern) => patternOverlapsPrefix(pattern, prefix))) {
+    return {
+      allowed: false,
+      rule: `${operation} allow list [${allow.join(", ")}] (buckets.${bucket}.${operation}.allow)`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Strict prefix check for grants that reach every key under a prefix (upload links,
+// lifecycle rules): one allow pattern must cover the whole prefix, and any deny rule that
+// could match a key under it blocks it
+export function checkS3WholePrefixAccess(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  prefix: string,
+  operation: S3AccessOperation
+): S3AccessDecision {
+  const rules = policy?.buckets[bucket];
+  if (!rules) return { allowed: true };
+
+  const deny = denyRulesFor(bucket, rules, operation).find((rule) =>
+    patternOverlapsPrefix(rule.pattern, prefix)
+  );
+  if (deny) {
+    return { allowed: false, rule: `deny rule "${deny.pattern}" (${deny.source})` };
+  }
+
+  const allow = rules[operation]?.allow;
+  if (allow && !allow.some((pattern) => patternCoversPrefix(pattern, prefix))) {
+    return {
+      allowed: false,
+      rule: `${operation} allow list [${allow.join(", ")}] (buckets.${bucket}.${operation}.allow)`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+function accessDeniedError(message: string): Error {
+  const error = new Error(message);
+  error.name = "S3AccessDenied";
+  return error;
+}
+
+export function assertS3Access(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  key: string,
+  operation: S3AccessOperation
+): void {
+  const decision = checkS3Access(policy, bucket, key, operation);
+  if (!decision.allowed) {
+    throw accessDeniedError(
+      `${operation} of key "${key}" in bucket "${bucket}" is blocked by ${decision.rule}.`
+    );
+  }
+}
+
+export function assertS3PrefixAccess(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  prefix: string,
+  operation: S3AccessOperation
+): void {
+  const decision = checkS3PrefixAccess(policy, bucket, prefix, operation);
+  if (!decision.allowed) {
+    throw accessDeniedError(
+      `${operation} of prefix "${prefix}" in bucket "${bucket}" is blocked by ${decision.rule}.`
+    );
+  }
+}
+
+export function assertS3WholePrefixAccess(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  prefix: string,
+  operation: S3AccessOperation
+): void {
+  const decision = checkS3WholePrefixAccess(policy, bucket, prefix, operation);
+  if (!decision.allowed) {
+    throw accessDeniedError(
+      `${operation} of every key under prefix "${prefix}" in bucket "${bucket}" is blocked by ${decision.rule}.`
+    );
+  }
+}
+
+// Drops keys the policy does not allow reading, for listings and scans
+export function filterReadableKeys<T extends string | { key: string }>(
+  policy: S3AccessPolicy | undefined,
+  bucket: string,
+  items: T[]
+): { allowed: T[]; hidden: number } {
+  const allowed = items.filter((item) => {
+    const key = typeof item === "string" ? item : item.key;
+    return checkS3Access(policy, bucket, key, "read").allowed;
+  });
+  return { allowed, hidden: items.length - allowed.length };
+}
@@ -0,0 +1,225 @@
+import type { BucketSecurityConfig } from "./awsS3.js";
+
+// Turns the raw bucket settings from getBucketSecurityConfig into findings. Checks are
+// deliberately simple and explainable; anything ambiguous is reported for review
+// rather than treated as safe.
+
+export type FindingSeverity = "critical" | "high" | "medium" | "low" | "info";
+
+export type PostureFinding = {
+  severity: FindingSeverity;
+  check: string;
+  message: string;
+};
+
+export const severityOrder: FindingSeverity[] = ["critical", "high", "medium", "low", "info"];
+
+const publicGroupUris: Record<string, { label: string; severity: FindingSeverity }> = {
+  "http://acs.amazonaws.com/groups/global/AllUsers": { label: "everyone", severity: "critical" },
+  "http://acs.amazonaws.com/groups/global/AuthenticatedUsers": {
+    label: "any AWS account",
+    severity: "high",
+  },
+};
+
+type policyStatement = {
+  Sid?: string;
+  Effect?: string;
+  Principal?: unknown;
+  Action?: string | string[];
+  Condition?: Record<string, Record<string, unknown>>;
+};
+
+function isPublicPrincipal(principal: unknown): boolean {
+  if (principal === "*") return true;
+  if (principal && typeof principal === "object") {
+    const aws = (principal as Record<string, unknown>).AWS;
+    return aws === "*" || (Array.isArray(aws) && aws.includes("*"));
+  }
+  return false;
+}
+
+function statementLabel(statement: policyStatement, index: number): string {
+  return statement.Sid ? `statement "${statement.Sid}"` : `statement #${index + 1}`;
+}
+
+function deniesInsecureTransport(statements: policyStatement[]): boolean {
+  return statements.some(
+    (statement) =>
+      statement.Effect === "Deny" &&
+      Object.values(statement.Condition ?? {}).some(
+        (operator) => String(operator?.["aws:SecureTransport"]).toLowerCase() === "false"
+      )
+  );
+}
+
+function checkPolicy(policy: string, findings: PostureFinding[]) {
+  let statements: policyStatement[];
+  try {
+    const parsed = JSON.parse(policy);
+    statements = Array.isArray(parsed.Statement) ? parsed.Statement : [parsed.Statement];
+  } catch {
+    findings.push({
+      severity: "medium",
+      check: "policy",
+      message: "Bucket policy could not be parsed, so it was not checked.",
+    });
+    return;
+  }
+
+  statements.forEach((statement, index) => {
+    if (statement?.Effect !== "Allow" || !isPublicPrincipal(statement.Principal)) return;
+
+    const actions = ([] as string[]).concat(statement.Action ?? []).join(", ") || "no actions";
+    if (statement.Condition && Object.keys(statement.Condition).length > 0) {
+      findings.push({
+        severity: "medium",
+        check: "policy",
+        message: `${statementLabel(statement, index)} allows Principal "*" (${actions}) behind conditions ${Object.keys(statement.Condition).join(", ")}. Confirm the conditions really limit access.`,
+      });
+    } else {
+      findings.push({
+        severity: "critical",
+        check: "policy",
+        message: `${statementLabel(statement, index)} allows Principal "*" (${actions}) with no conditions, so anyone can use it.`,
+      });
+    }
+  });
+
+  if (!deniesInsecureTransport(statements)) {
+    findings.push({
+      severity: "low",
+      check: "policy",
+      message: "Bucket policy does not deny requests without TLS (aws:SecureTransport).",
+    });
+  }
+}
+
+export function evaluateBucketPosture(config: BucketSecurityConfig): PostureFinding[] {
+  const findings: PostureFinding[] = [];
+  const unavailable = new Set(config.unavailable.map((item) => item.section));
+
+  if (!unavailable.has("publicAccessBlock")) {
+    const block = config.publicAccessBlock;
+    const disabled = block
+      ? Object.entries(block)
+          .filter(([, enabled]) => !enabled)
+          .map(([name]) => name)
+      : ["all settings"];
+    if (disabled.length > 0) {
+      findings.push({
+        severity: "high",
+        check: "publicAccessBlock",
+        message: `Block Public Access is off for ${disabled.join(", ")} at the bucket level.`,
+      });
+    }
+  }
+
+  if (config.policy !== undefined) {
+    checkPolicy(config.policy, findings);
+  } else if (!unavailable.has("policy")) {
+    findings.push({
+      severity: "low",
+      check: "policy",
+      message: "No bucket policy, so requests without TLS are not explicitly denied.",
+    });
+  }
+
+  for (const grant of config.aclGrants ?? []) {
+    const group = publicGroupUris[grant.grantee];
+    if (group) {
+      findings.push({
+        severity: group.severity,
+        check: "acl",
+        message: `ACL grants ${grant.permission} to ${group.label}.`,
+      });
+    }
+  }
+
+  if (!unavailable.has("objectOwnership") && config.objectOwnership !== "BucketOwnerEnforced") {
+    findings.push({
+      severity: "medium",
+      check: "objectOwnership",
+      message: `Object ownership is ${config.objectOwnership ?? "not set"}, so ACLs are still in effect. BucketOwnerEnforced disables them.`,
+    });
+  }
+
+  if (!unavailable.has("encryption")) {
+    const algorithm = config.encryption?.algorithm;
+    if (!algorithm) {
+      findings.push({
+        severity: "medium",
+        check: "encryption",
+        message: "No default encryption is configured.",
+      });
+    } else if (algorithm === "AES256") {
+      findings.push({
+        severity: "info",
+        check: "encryption",
+        message: "Default encryption is SSE-S3. Use SSE-KMS if you need key-level access control or audit.",
+      });
+    } else if (algorithm.startsWith("aws:kms") && !config.encryption?.bucketKeyEnabled) {
+      findings.push({
+        severity: "low",
+        check: "encryption",
+        message: "SSE-KMS is used without an S3 Bucket Key, which raises KMS request costs.",
+      });
+    }
+  }
+
+  if (config.versioning) {
+    if (config.versioning.status !== "Enabled") {
+      findings.push({
+        severity: "medium",
+        check: "versioning",
+        message: `Versioning is ${config.versioning.status.toLowerCase()}, so overwritten or deleted objects cannot be recovered.`,
+      });
+    } else if (config.versioning.mfaDelete !== "Enabled") {
+      findings.push({
+        severity: "low",
+        check: "versioning",
+        message: "MFA delete is off, so versions can be permanently deleted without a second factor.",
+      });
+    }
+  }
+
+  if (config.lifecycleRules) {
+    const enabled = config.lifecycleRules.filter((rule) => rule.Status === "Enabled");
+    if (enabled.length === 0) {
+      findings.push({
+        severity: "low",
+        check: "lifecycle",
+        message: "No enabled lifecycle rules, so old data and incomplete multipart uploads are kept forever.",
+      });
+    } else if (
+      config.versioning?.status === "Enabled" &&
+      !enabled.some((rule) => rule.NoncurrentVersionExpiration)
+    ) {
+      findings.push({
+        severity: "low",
+        check: "lifecycle",
+        message: "Versioning is on but no lifecycle rule expires noncurrent versions, so old versions pile up.",
+      });
+    }
+  }
+
+  if (config.logging && !config.logging.enabled) {
+    findings.push({
+      severity: "low",
+      check: "logging",
+      message: "Server access logging is off.",
+    });
+  }
+
+  for (const item of config.unavailable) {
+    findings.push({
+      severity: "info",
+      check: item.section,
+      message: `Could not read ${item.section} (${item.reason}), so it was not checked.`,
+    });
+  }
+
+  return findings.sort(
+    (a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity)
+  );
+}
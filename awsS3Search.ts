@@ -0,0 +1,222 @@
+import { looksBinary, openTextObjectStream, type S3ObjectMeta } from "./awsS3.js";
+
+export type SearchOptions = {
+  pattern: string;
+  isRegex: boolean;
+  ignoreCase: boolean;
+  contextLines: number;
+  maxMatches: number;
+  maxBytesScanned: number;
+  concurrency: number;
+};
+
+export type SearchMatch = {
+  key: string;
+  lineNumber: number;
+  line: string;
+  before: string[];
+  after: string[];
+};
+
+export type SearchResult = {
+  matches: SearchMatch[];
+  objectsScanned: number;
+  bytesScanned: number;
+  truncated: boolean;
+  stopReason?: "maxMatches" | "maxBytesScanned";
+  skipped: Array<{ key: string; reason: string }>;
+};
+
+// Long lines are clipped in results so one minified file cannot flood the output
+const maxLineChars = 500;
+
+function clipLine(line: string): string {
+  return line.length > maxLineChars ? `${line.slice(0, maxLineChars)}…` : line;
+}
+
+// Only this much of a line is kept for matching. The rest is still read and counted toward
+// maxBytesScanned, so a file without newlines cannot hold the whole object in memory.
+const maxLineBytes = 64 * 1024;
+
+// Splits raw chunks into lines and hands each to onLine until it returns false. A line
+// past maxLineBytes is cut there and the remainder up to the next newline is dropped.
+function lineSplitter(onLine: (line: string) => boolean) {
+  let parts: Buffer[] = [];
+  let partBytes = 0;
+  let pending = false;
+
+  const take = (part: Buffer) => {
+    pending = true;
+    const room = maxLineBytes - partBytes;
+    if (room <= 0) return;
+    parts.push(part.subarray(0, room));
+    partBytes += Math.min(part.length, room);
+  };
+  const emit = () => {
+    const line = Buffer.concat(parts).toString("utf8").replace(/\r$/, "");
+    parts = [];
+    partBytes = 0;
+    pending = false;
+    return onLine(line);
+  };
+
+  return {
+    push(chunk: Buffer): boolean {
+      let start = 0;
+      let newline = chunk.indexOf(0x0a, start);
+      while (newline !== -1) {
+        take(chunk.subarray(start, newline));
+        if (!emit()) return false;
+        start = newline + 1;
+        newline = chunk.indexOf(0x0a, start);
+      }
+      if (start < chunk.length) take(chunk.subarray(start));
+      return true;
+    },
+    end(): boolean {
+      return pending ? emit() : true;
+    },
+  };
+}
+
+function buildMatcher(options: SearchOptions): (line: string) => boolean {
+  if (options.isRegex) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(options.pattern, options.ignoreCase ? "i" : "");
+    } catch (error: any) {
+      const invalid = new Error(`Invalid regular expression: ${error?.message ?? options.pattern}`);
+      invalid.name = "InvalidSearchPattern";
+      throw invalid;
+    }
+    return (line) => regex.test(line);
+  }
+
+  if (options.ignoreCase) {
+    const needle = options.pattern.toLowerCase();
+    return (line) => line.toLowerCase().includes(needle);
+  }
+  return (line) => line.includes(options.pattern);
+}
+
+export async function searchObjectContents(
+  bucket: string,
+  items: S3ObjectMeta[],
+  options: SearchOptions
+): Promise<SearchResult> {
+  const matcher = buildMatcher(options);
+  const result: SearchResult = {
+    matches: [],
+    objectsScanned: 0,
+    bytesScanned: 0,
+    truncated: false,
+    skipped: [],
+  };
+
+  const stop = (reason: SearchResult["stopReason"]) => {
+    result.truncated = true;
+    result.stopReason ??= reason;
+  };
+
+  async function searchOne(item: S3ObjectMeta): Promise<void> {
+    let opened;
+    try {
+      opened = await openTextObjectStream(bucket, item.key);
+    } catch (error: any) {
+      result.skipped.push({ key: item.key, reason: error?.message ?? "Could not open object" });
+      return;
+    }
+
+    const { stream } = opened;
+    const before: string[] = [];
+    const waitingForAfter: SearchMatch[] = [];
+    let lineNumber = 0;
+    result.objectsScanned++;
+
+    // Returns false to stop reading this object
+    const onLine = (line: string): boolean => {
+      // Another worker hit a cap
+      if (result.truncated) return false;
+      lineNumber++;
+
+      const clipped = clipLine(line);
+      for (const match of waitingForAfter) match.after.push(clipped);
+      while (waitingForAfter.length && waitingForAfter[0].after.length >= options.contextLines) {
+        waitingForAfter.shift();
+      }
+
+      if (result.matches.length < options.maxMatches && matcher(line)) {
+        const match: SearchMatch = {
+          key: item.key,
+          lineNumber,
+          line: clipped,
+          before: [...before],
+          after: [],
+        };
+        result.matches.push(match);
+        if (options.contextLines > 0) waitingForAfter.push(match);
+      }
+
+      if (options.contextLines > 0) {
+        before.push(clipped);
+        if (before.length > options.contextLines) before.shift();
+      }
+
+      // Let trailing context finish before honoring the match cap
+      if (result.matches.length >= options.maxMatches && waitingForAfter.length === 0) {
+        stop("maxMatches");
+        return false;
+      }
+      return true;
+    };
+    const lines = lineSplitter(onLine);
+
+    try {
+      let first = true;
+      let reading = true;
+      for await (const chunk of stream) {
+        const buffer: Buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        if (first && looksBinary(buffer)) {
+          result.skipped.push({ key: item.key, reason: "Binary content" });
+          reading = false;
+          break;
+        }
+        first = false;
+
+        // Counted as bytes arrive, so the budget holds even inside one long line
+        result.bytesScanned += buffer.length;
+        reading = lines.push(buffer);
+        if (reading && result.bytesScanned >= options.maxBytesScanned) {
+          stop("maxBytesScanned");
+          reading = false;
+        }
+        if (!reading) break;
+      }
+
+      if (reading) lines.end();
+      // Matches still waiting for trailing context at end of file also fill the cap
+      if (result.matches.length >= options.maxMatches) stop("maxMatches");
+    } catch (error: any) {
+      result.skipped.push({ key: item.key, reason: error?.message ?? "Read failed" });
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  // Fixed pool of workers pulling the next key until the list or a cap runs out
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length && !result.truncated) {
+      const item = items[nextIndex++];
+      await searchOne(item);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(options.concurrency, items.length) }, () => worker())
+  );
+
+  result.matches.sort((a, b) =>
+    a.key === b.key ? a.lineNumber - b.lineNumber : a.key < b.key ? -1 : 1
+  );
+  return result;
+}
@@ -0,0 +1,609 @@
+import type { Readable } from "node:stream";
+
+import { looksBinary, openTextObjectStream } from "./awsS3.js";
+
+// Parses CSV, TSV, JSON arrays and NDJSON objects from S3 and runs a small structured
+// query over them. CSV and NDJSON are streamed; JSON arrays are buffered up to a cap.
+
+export type TabularFormat = "csv" | "tsv" | "json" | "ndjson";
+
+export type ColumnType =
+  | "integer"
+  | "number"
+  | "boolean"
+  | "timestamp"
+  | "string"
+  | "object"
+  | "null"
+  | "mixed";
+
+export type ColumnSchema = {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  example?: string;
+};
+
+export type FilterOp =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains"
+  | "startsWith"
+  | "in"
+  | "isNull"
+  | "notNull";
+
+export type TabularFilter = {
+  column: string;
+  op: FilterOp;
+  value?: string | number | boolean | Array<string | number>;
+};
+
+export type AggregateFn = "count" | "countDistinct" | "sum" | "avg" | "min" | "max";
+
+export type TabularAggregate = {
+  fn: AggregateFn;
+  column?: string;
+  as?: string;
+};
+
+export type TabularQuery = {
+  format?: TabularFormat;
+  hasHeader: boolean;
+  select?: string[];
+  where: TabularFilter[];
+  groupBy: string[];
+  aggregates: TabularAggregate[];
+  orderBy?: { column: string; direction: "asc" | "desc" };
+  limit: number;
+  maxRowsScanned: number;
+};
+
+export type TabularResult = {
+  rowCount: number;
+  columns: string[];
+  rows: Array<Record<string, any>>;
+  format: TabularFormat;
+  schema: ColumnSchema[];
+  rowsScanned: number;
+  rowsMatched: number;
+  invalidRows: number;
+  truncated: boolean;
+  stopReason?: "limit" | "maxRowsScanned" | "maxGroups";
+};
+
+type row = Record<string, unknown>;
+
+const maxJsonArrayBytes = 32 * 1024 * 1024;
+const maxGroups = 10000;
+const maxExampleChars = 80;
+
+function tabularError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+export function detectTabularFormat(key: string, firstText: string): TabularFormat {
+  const name = key.toLowerCase().replace(/\.(gz|gzip|zst|zstd)$/, "");
+  if (name.endsWith(".csv")) return "csv";
+  if (name.endsWith(".tsv") || name.endsWith(".tab")) return "tsv";
+  if (name.endsWith(".ndjson") || name.endsWith(".jsonl")) return "ndjson";
+  if (name.endsWith(".json")) return "json";
+
+  const trimmed = firstText.trimStart();
+  if (trimmed.startsWith("[")) return "json";
+  if (trimmed.startsWith("{")) return "ndjson";
+  const firstLine = trimmed.split("\n", 1)[0];
+  return firstLine.includes("\t") && !firstLine.includes(",") ? "tsv" : "csv";
+}
+
+function unknownColumnError(unknown: string[], known: Iterable<string>): Error {
+  return tabularError(
+    "UnknownColumn",
+    `Unknown column(s) ${unknown.map((name) => `"${name}"`).join(", ")}. Available columns: ${[...known].join(", ")}.`
+  );
+}
+
+// inspectFirst sees the first raw chunk before it is decoded, and may throw to refuse it
+async function* textChunks(
+  stream: Readable,
+  inspectFirst: (chunk: Buffer) => void
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder("utf-8");
+  let first = true;
+  for await (const chunk of stream) {
+    if (first) inspectFirst(chunk as Buffer);
+    first = false;
+    yield decoder.decode(chunk as Buffer, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest.length > 0) yield rest;
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, doubled quotes and newlines
+async function* parseDelimited(
+  chunks: AsyncIterable<string>,
+  delimiter: string
+): AsyncGenerator<string[]> {
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let quotePending = false;
+  let fieldQuoted = false;
+
+  for await (const chunk of chunks) {
+    const records: string[][] = [];
+
+    for (const char of chunk) {
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field.length === 0 && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = "";
+        fieldQuoted = false;
+      } else if (char === "\n") {
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+        fieldQuoted = false;
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+
+    for (const parsed of records) {
+      if (parsed.length === 1 && parsed[0] === "") continue;
+      yield parsed;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0 || fieldQuoted) {
+    record.push(field);
+    yield record;
+  }
+}
+
+async function* splitLines(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = "";
+  for await (const chunk of chunks) {
+    pending += chunk;
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) yield line;
+  }
+  if (pending.length > 0) yield pending;
+}
+
+// Empty cells become null; numbers with leading zeros or beyond double precision stay text
+function coerceCell(raw: string): unknown {
+  if (raw === "") return null;
+  if (/^-?\d+$/.test(raw)) {
+    if (/^-?0\d/.test(raw) || raw.replace("-", "").length > 15) return raw;
+    return Number(raw);
+  }
+  if (/^-?(\d+\.\d*|\.\d+|\d+)(e[+-]?\d+)?$/i.test(raw)) return Number(raw);
+  const lower = raw.toLowerCase();
+  if (lower === "true") return true;
+  if (lower === "false") return false;
+  return raw;
+}
+
+function uniqueHeaders(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map((raw, index) => {
+    const base = raw.replace(/^\uFEFF/, "").trim() || `column_${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+}
+
+function valueType(value: unknown): ColumnType {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  if (typeof value === "string") {
+    return /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)
+      ? "timestamp"
+      : "string";
+  }
+  return "object";
+}
+
+type columnStats = { name: string; types: Set<ColumnType>; nullCount: number; example?: string };
+
+function finalType(types: Set<ColumnType>): ColumnType {
+  const present = [...types].filter((type) => type !== "null");
+  if (present.length === 0) return "null";
+  if (present.length === 1) return present[0];
+  if (present.every((type) => type === "integer" || type === "number")) return "number";
+  return "mixed";
+}
+
+function toExample(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > maxExampleChars ? `${text.slice(0, maxExampleChars)}…` : text;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const aNumber = typeof a === "number" ? a : typeof a === "string" && a !== "" ? Number(a) : NaN;
+  const bNumber = typeof b === "number" ? b : typeof b === "string" && b !== "" ? Number(b) : NaN;
+  if (!Number.isNaN(aNumber) && !Number.isNaN(bNumber)) return aNumber - bNumber;
+
+  const aText = typeof a === "string" ? a : JSON.stringify(a);
+  const bText = typeof b === "string" ? b : JSON.stringify(b);
+  return aText < bText ? -1 : aText > bText ? 1 : 0;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function matchesFilter(record: row, filter: TabularFilter): boolean {
+  const value = record[filter.column];
+  const expected = filter.value;
+
+  switch (filter.op) {
+    case "isNull":
+      return isMissing(value);
+    case "notNull":
+      return !isMissing(value);
+    case "in":
+      return (
+        !isMissing(value) &&
+        (Array.isArray(expected) ? expected : [expected]).some(
+          (candidate) => compareValues(value, candidate) === 0
+        )
+      );
+    case "contains":
+      return (
+        !isMissing(value) &&
+        String(value).toLowerCase().includes(String(expected ?? "").toLowerCase())
+      );
+    case "startsWith":
+      return !isMissing(value) && String(value).startsWith(String(expected ?? ""));
+  }
+
+  if (isMissing(value)) return filter.op === "ne" && !isMissing(expected);
+  const order = compareValues(value, expected);
+  switch (filter.op) {
+    case "eq":
+      return order === 0;
+    case "ne":
+      return order !== 0;
+    case "gt":
+      return order > 0;
+    case "gte":
+      return order >= 0;
+    case "lt":
+      return order < 0;
+    case "lte":
+      return order <= 0;
+  }
+  return false;
+}
+
+type aggregateState = {
+  count: number;
+  sum: number;
+  min?: unknown;
+  max?: unknown;
+  distinct?: Set<string>;
+};
+
+export function aggregateName(aggregate: TabularAggregate): string {
+  if (aggregate.as) return aggregate.as;
+  return aggregate.column ? `${aggregate.fn}_${aggregate.column}` : aggregate.fn;
+}
+
+function updateAggregate(state: aggregateState, aggregate: TabularAggregate, record: row) {
+  if (!aggregate.column) {
+    state.count++;
+    return;
+  }
+
+  const value = record[aggregate.column];
+  if (isMissing(value)) return;
+  state.count++;
+
+  if (aggregate.fn === "countDistinct") {
+    state.distinct ??= new Set();
+    state.distinct.add(typeof value === "string" ? value : JSON.stringify(value));
+  } else if (aggregate.fn === "sum" || aggregate.fn === "avg") {
+    const numeric = typeof value === "number" ? value : Number(value);
+    if (Number.isFinite(numeric)) state.sum += numeric;
+  } else if (aggregate.fn === "min") {
+    if (state.min === undefined || compareValues(value, state.min) < 0) state.min = value;
+  } else if (aggregate.fn === "max") {
+    if (state.max === undefined || compareValues(value, state.max) > 0) state.max = value;
+  }
+}
+
+function aggregateValue(state: aggregateState, aggregate: TabularAggregate): unknown {
+  switch (aggregate.fn) {
+    case "count":
+      return state.count;
+    case "countDistinct":
+      return state.distinct?.size ?? 0;
+    case "sum":
+      return state.sum;
+    case "avg":
+      return state.count > 0 ? state.sum / state.count : null;
+    case "min":
+      return state.min ?? null;
+    case "max":
+      return state.max ?? null;
+  }
+}
+
+async function* jsonArrayRows(chunks: AsyncIterable<string>): AsyncGenerator<unknown> {
+  let text = "";
+  for await (const chunk of chunks) {
+    text += chunk;
+    if (text.length > maxJsonArrayBytes) {
+      throw tabularError(
+        "TabularTooLarge",
+        `JSON documents over ${maxJsonArrayBytes} bytes cannot be parsed in memory. Use NDJSON for large exports.`
+      );
+    }
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw tabularError("InvalidTabularData", `Could not parse JSON: ${error?.message ?? error}`);
+  }
+  if (Array.isArray(parsed)) {
+    yield* parsed;
+  } else {
+    yield parsed;
+  }
+}
+
+export async function queryTabularObject(
+  bucket: string,
+  key: string,
+  query: TabularQuery
+): Promise<TabularResult> {
+  const { stream } = await openTextObjectStream(bucket, key);
+
+  try {
+    const chunks = textChunks(stream, (chunk) => {
+      if (looksBinary(chunk)) {
+        throw tabularError("BinaryObject", `"${key}" looks like a binary file.`);
+      }
+    });
+    const first = await chunks.next();
+    const firstText = first.done ? "" : first.value;
+
+    const format = query.format ?? detectTabularFormat(key, firstText);
+    const allChunks = (async function* () {
+      if (firstText.length > 0) yield firstText;
+      yield* chunks;
+    })();
+
+    const isAggregate = query.groupBy.length > 0 || query.aggregates.length > 0;
+    const aggregates: TabularAggregate[] =
+      isAggregate && query.aggregates.length === 0 ? [{ fn: "count" }] : query.aggregates;
+    const isPreview = !isAggregate && query.where.length === 0 && !query.orderBy;
+    const orderBy = query.orderBy;
+    const sign = orderBy?.direction === "desc" ? -1 : 1;
+
+    const referenced = [
+      ...(query.select ?? []),
+      ...query.where.map((filter) => filter.column),
+      ...query.groupBy,
+      ...aggregates.flatMap((aggregate) => (aggregate.column ? [aggregate.column] : [])),
+      ...(orderBy && !isAggregate ? [orderBy.column] : []),
+    ];
+    const unknownIn = (known: Set<string>) => [
+      ...new Set(referenced.filter((name) => !known.has(name))),
+    ];
+
+    const stats = new Map<string, columnStats>();
+    let invalidRows = 0;
+
+    const statsFor = (name: string) => {
+      let entry = stats.get(name);
+      if (!entry) {
+        entry = { name, types: new Set(), nullCount: 0 };
+        stats.set(name, entry);
+      }
+      return entry;
+    };
+
+    // Every source yields plain objects so the query stage does not care about the format
+    const records = (async function* (): AsyncGenerator<row> {
+      if (format === "csv" || format === "tsv") {
+        let header: string[] | undefined;
+        for await (const fields of parseDelimited(allChunks, format === "tsv" ? "\t" : ",")) {
+          if (!header) {
+            header = query.hasHeader
+              ? uniqueHeaders(fields)
+              : fields.map((_, index) => `column_${index + 1}`);
+            header.forEach((name) => statsFor(name));
+
+            // The header names every column, so a typo fails before any rows are scanned
+            const unknown = unknownIn(new Set(header));
+            if (unknown.length > 0) throw unknownColumnError(unknown, header);
+            if (query.hasHeader) continue;
+          }
+          if (fields.length !== header.length) invalidRows++;
+          const record: row = {};
+          header.forEach((name, index) => {
+            record[name] = index < fields.length ? coerceCell(fields[index]) : null;
+          });
+          yield record;
+        }
+        return;
+      }
+
+      const items =
+        format === "json"
+          ? jsonArrayRows(allChunks)
+          : (async function* () {
+              for await (const line of splitLines(allChunks)) {
+                if (line.trim().length === 0) continue;
+                try {
+                  yield JSON.parse(line) as unknown;
+                } catch {
+                  invalidRows++;
+                }
+              }
+            })();
+
+      for await (const item of items) {
+        yield item !== null && typeof item === "object" && !Array.isArray(item)
+          ? (item as row)
+          : { value: item };
+      }
+    })();
+
+    const groups = new Map<string, { keys: unknown[]; states: aggregateState[] }>();
+    const kept: row[] = [];
+    let rowsScanned = 0;
+    let rowsMatched = 0;
+    let stopReason: TabularResult["stopReason"];
+
+    for await (const record of records) {
+      if (rowsScanned >= query.maxRowsScanned) {
+        stopReason = "maxRowsScanned";
+        break;
+      }
+      rowsScanned++;
+
+      for (const [name, value] of Object.entries(record)) {
+        const entry = statsFor(name);
+        entry.types.add(valueType(value));
+        if (isMissing(value)) entry.nullCount++;
+        else entry.example ??= toExample(value);
+      }
+
+      if (!query.where.every((filter) => matchesFilter(record, filter))) continue;
+      rowsMatched++;
+
+      if (isAggregate) {
+        const keys = query.groupBy.map((column) => record[column] ?? null);
+        const groupKey = JSON.stringify(keys);
+        let group = groups.get(groupKey);
+        if (!group) {
+          if (groups.size >= maxGroups) {
+            stopReason = "maxGroups";
+            break;
+          }
+          group = { keys, states: aggregates.map(() => ({ count: 0, sum: 0 })) };
+          groups.set(groupKey, group);
+        }
+        aggregates.forEach((aggregate, index) =>
+          updateAggregate(group.states[index], aggregate, record)
+        );
+        continue;
+      }
+
+      if (!orderBy) {
+        if (kept.length < query.limit) kept.push(record);
+        // A plain preview does not need the rest of the file
+        if (isPreview && kept.length >= query.limit) {
+          stopReason = "limit";
+          break;
+        }
+        continue;
+      }
+
+      // Keep only the best `limit` rows, in order, so sorting never holds the whole file
+      const value = record[orderBy.column];
+      let position = kept.length;
+      while (position > 0 && sign * compareValues(kept[position - 1][orderBy.column], value) > 0) {
+        position--;
+      }
+      if (position < query.limit) {
+        kept.splice(position, 0, record);
+        if (kept.length > query.limit) kept.pop();
+      }
+    }
+
+    const schema: ColumnSchema[] = [...stats.values()].map((entry) => ({
+      name: entry.name,
+      type: finalType(entry.types),
+      nullCount: entry.nullCount,
+      example: entry.example,
+    }));
+
+    // JSON records can differ in shape, so their columns are only known after the scan
+    const known = new Set(schema.map((column) => column.name));
+    const unknown = unknownIn(known);
+    if (rowsScanned > 0 && unknown.length > 0) throw unknownColumnError(unknown, known);
+
+    let columns: string[];
+    let rows: row[];
+
+    if (isAggregate) {
+      columns = [...query.groupBy, ...aggregates.map(aggregateName)];
+      rows = [...groups.values()].map((group) => {
+        const output: row = {};
+        query.groupBy.forEach((column, index) => (output[column] = group.keys[index]));
+        aggregates.forEach((aggregate, index) => {
+          output[aggregateName(aggregate)] = aggregateValue(group.states[index], aggregate);
+        });
+        return output;
+      });
+      if (orderBy) {
+        if (!columns.includes(orderBy.column)) {
+          throw tabularError(
+            "UnknownColumn",
+            `Cannot order grouped results by "${orderBy.column}". Use one of: ${columns.join(", ")}.`
+          );
+        }
+        rows.sort((a, b) => sign * compareValues(a[orderBy.column], b[orderBy.column]));
+      }
+      rows = rows.slice(0, query.limit);
+    } else {
+      columns = query.select ?? schema.map((column) => column.name);
+      rows = kept.map((record) => {
+        const output: row = {};
+        for (const column of columns) output[column] = record[column] ?? null;
+        return output;
+      });
+    }
+
+    return {
+      rowCount: rows.length,
+      columns,
+      rows,
+      format,
+      schema,
+      rowsScanned,
+      rowsMatched,
+      invalidRows,
+      truncated: stopReason !== undefined,
+      stopReason,
+    };
+  } finally {
+    stream.destroy();
+  }
+}
@@ -0,0 +1,127 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  getTextObject,
+  putTextObject,
+  listS3Objects,
+  createPresignedPutUrl,
+  createPresignedPost,
+  agentReservedPrefix,
+  type UploadConstraints,
+} from "./awsS3.js";
+
+// Every upload URL handed out is recorded in the target bucket before it is returned.
+// The record keeps the constraints but never the URL or signature, which are bearer secrets.
+export const uploadGrantPrefix = `${agentReservedPrefix}upload-grants/`;
+
+// SigV4 presigned requests cannot outlive seven days
+const sigV4MaxExpirySeconds = 7 * 24 * 60 * 60;
+
+export type UploadMethod = "PUT" | "POST";
+
+export type UploadGrant = {
+  grantId: string;
+  method: UploadMethod;
+  bucket: string;
+  constraints: UploadConstraints;
+  issuedAt: string;
+  expiresAt: string;
+  expiresInSeconds: number;
+};
+
+export type IssuedUpload = {
+  grant: UploadGrant;
+  auditKey: string;
+  url: string;
+  fields?: Record<string, string>;
+};
+
+function uploadError(code: string, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
+
+export function loadUploadExpiryCeiling(value?: string): number {
+  if (!value || value.trim().length === 0) return 3600;
+
+  const seconds = Number(value.trim());
+  if (!Number.isInteger(seconds) || seconds < 60 || seconds > sigV4MaxExpirySeconds) {
+    throw new Error(
+      `S3_UPLOAD_MAX_EXPIRY_SECONDS must be a whole number between 60 and ${sigV4MaxExpirySeconds}.`
+    );
+  }
+  return seconds;
+}
+
+function auditKeyFor(grant: UploadGrant): string {
+  return `${uploadGrantPrefix}${grant.issuedAt.slice(0, 10)}/${grant.grantId}.json`;
+}
+
+export async function issueUploadUrl(
+  bucket: string,
+  method: UploadMethod,
+  constraints: UploadConstraints,
+  expiresInSeconds: number,
+  expiryCeilingSeconds: number
+): Promise<IssuedUpload> {
+  if (expiresInSeconds > expiryCeilingSeconds) {
+    throw uploadError(
+      "UploadExpiryTooLong",
+      `Upload links can last at most ${expiryCeilingSeconds} seconds (S3_UPLOAD_MAX_EXPIRY_SECONDS); ${expiresInSeconds} was requested.`
+    );
+  }
+
+  const now = Date.now();
+  const issuedAt = new Date(now).toISOString();
+  const grant: UploadGrant = {
+    // Timestamp first so grant keys sort by issue time within a day
+    grantId: `${issuedAt.replace(/[-:.]/g, "")}-${randomUUID().slice(0, 8)}`,
+    method,
+    bucket,
+    constraints,
+    issuedAt,
+    expiresAt: new Date(now + expiresInSeconds * 1000).toISOString(),
+    expiresInSeconds,
+  };
+
+  // Sign first so a signing failure leaves no record, then record before returning
+  let url: string;
+  let fields: Record<string, string> | undefined;
+  if (method === "PUT") {
+    url = await createPresignedPutUrl(bucket, constraints.key ?? "", constraints, expiresInSeconds);
+  } else {
+    ({ url, fields } = await createPresignedPost(bucket, constraints, expiresInSeconds));
+  }
+
+  const auditKey = auditKeyFor(grant);
+  await putTextObject(bucket, auditKey, JSON.stringify(grant, null, 2), "application/json");
+
+  return { grant, auditKey, url, fields };
+}
+
+export async function listUploadGrants(
+  bucket: string,
+  sinceDays: number,
+  maxGrants: number
+): Promise<UploadGrant[]> {
+  const keys = await listS3Objects(bucket, uploadGrantPrefix, 5000);
+  const cutoff = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  // Keys are <prefix><yyyy-mm-dd>/<timestamped id>.json, so a reverse sort is newest first
+  const recent = keys
+    .filter((key) => {
+      const day = key.slice(uploadGrantPrefix.length, uploadGrantPrefix.length + 10);
+      return key.endsWith(".json") && day >= cutoff;
+    })
+    .sort()
+    .reverse()
+    .slice(0, maxGrants);
+
+  const grants: UploadGrant[] = [];
+  for (const key of recent) {
+    const record = await getTextObject(bucket, key);
+    grants.push(JSON.parse(record.content) as UploadGrant);
+  }
+  return grants;
+}
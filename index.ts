@@ -2,6 +2,7 @@ import "dotenv/config";
 import "reflect-metadata";
 import { DaemoHostedConnection } from "daemo-engine";
 import { buildSessionData } from "./src/agentSession.js";
+import { startEc2Scheduler, scheduleSettingsFromEnv } from "./awsEc2Scheduler.js";
 
 /*
 .env vars
@@ -11,6 +12,14 @@ DAEMO_GATEWAY_URL
 DAEMO_AGENT_URL
 
 ALLOWED_BUCKETS
+S3_POLICY_FILE (optional per-bucket read/write prefix rules)
+S3_PRICING_FILE (optional override for assets/s3-pricing.json)
+
+EC2_CATALOG_FILE (optional override for assets/ec2-instance-types.json)
+PRICE_CATALOG_FILE (optional rates merged over assets/price-catalog.json)
+EC2_SCHEDULER_MODE (optional: off, dry-run or live; default off)
+EC2_SCHEDULER_INTERVAL_SECONDS (optional, default 300)
+EC2_SCHEDULE_HOLIDAYS (optional comma-separated YYYY-MM-DD dates)
 
 // for IAM user to access S3 and EC2
 AWS_REGION
@@ -39,6 +48,8 @@ async function main() {
 
   await connection.start();
   console.log("AWS Agent is online");
+
+  startEc2Scheduler(scheduleSettingsFromEnv());
 }
 
 main().catch(console.error);
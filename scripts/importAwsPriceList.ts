@@ -0,0 +1,206 @@
+import { createReadStream, existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+
+import { mergePriceData } from "../awsPricing.js";
+
+// Refreshes assets/price-catalog.json from AWS Price List CSV exports, e.g.
+// https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws/AmazonEC2/current/us-east-1/index.csv
+//
+//   npm run prices:import -- ec2-us-east-1.csv rds-us-east-1.csv [--out file] [--version 2025-06]
+//
+// Keeps on-demand USD rates that match the catalog's basis (Linux/shared tenancy EC2,
+// Single-AZ RDS) and merges them over the existing output file, so regions and services
+// that were not exported keep their previous rates.
+
+type regionRates = {
+  ec2?: Record<string, number>;
+  rds?: Record<string, Record<string, number>>;
+  ebsGbMonth?: Record<string, number>;
+  ebsGp3IopsMonth?: number;
+  ebsGp3ThroughputMibpsMonth?: number;
+  ebsSnapshotGbMonth?: number;
+  rdsStorageGbMonth?: Record<string, number>;
+};
+
+const rdsEngines: Record<string, string> = {
+  MySQL: "mysql",
+  PostgreSQL: "postgres",
+  MariaDB: "mariadb",
+};
+
+const rdsVolumeTypes: Record<string, string> = {
+  "General Purpose": "gp2",
+  "General Purpose-GP3": "gp3",
+  "Provisioned IOPS": "io1",
+  "Provisioned IOPS-IO2": "io2",
+  Magnetic: "standard",
+};
+
+// Price List rows never span lines, so a per-line splitter that honours quotes is enough
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function parseArgs(argv: string[]): { files: string[]; out: string; version?: string } {
+  const files: string[] = [];
+  let out = new URL("../assets/price-catalog.json", import.meta.url).pathname;
+  let version: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--out") out = argv[++i];
+    else if (argv[i] === "--version") version = argv[++i];
+    else files.push(argv[i]);
+  }
+
+  if (files.length === 0 || !out) {
+    throw new Error(
+      "Usage: npm run prices:import -- <price-list.csv> [...] [--out file] [--version label]"
+    );
+  }
+  return { files, out, version };
+}
+
+async function importFile(
+  filePath: string,
+  regions: Record<string, regionRates>
+): Promise<{ service: string; rows: number }> {
+  const lines = createInterface({ input: createReadStream(filePath, "utf8"), crlfDelay: Infinity });
+
+  let service = "";
+  let columns: Map<string, number> | undefined;
+  let rows = 0;
+
+  for await (const line of lines) {
+    const fields = splitCsvLine(line);
+
+    // Metadata lines ("OfferCode","AmazonEC2") come before the header row
+    if (!columns) {
+      if (fields[0] === "OfferCode") service = fields[1];
+      if (fields[0] === "SKU") {
+        columns = new Map(fields.map((name, index) => [name, index]));
+        if (!columns.has("Region Code")) {
+          throw new Error(`${filePath} has no "Region Code" column; export a newer price list.`);
+        }
+      }
+      continue;
+    }
+
+    const get = (name: string) => fields[columns!.get(name) ?? -1] ?? "";
+    if (get("TermType") !== "OnDemand" || get("Currency") !== "USD") continue;
+
+    const price = Number(get("PricePerUnit"));
+    const region = get("Region Code");
+    if (!region || !Number.isFinite(price)) continue;
+
+    const rates = (regions[region] ??= {});
+    const family = get("Product Family");
+    const unit = get("Unit");
+
+    if (service === "AmazonEC2") {
+      if (
+        family === "Compute Instance" &&
+        unit === "Hrs" &&
+        get("Operating System") === "Linux" &&
+        get("Tenancy") === "Shared" &&
+        get("Pre Installed S/W") === "NA" &&
+        get("CapacityStatus") === "Used" &&
+        get("Instance Type")
+      ) {
+        (rates.ec2 ??= {})[get("Instance Type")] = price;
+        rows++;
+      } else if (family === "Storage" && unit === "GB-Mo" && get("Volume API Name")) {
+        (rates.ebsGbMonth ??= {})[get("Volume API Name")] = price;
+        rows++;
+      } else if (get("usageType").endsWith("VolumeP-IOPS.gp3") && unit === "IOPS-Mo") {
+        rates.ebsGp3IopsMonth = price;
+        rows++;
+      } else if (get("usageType").endsWith("VolumeP-Throughput.gp3")) {
+        // Listed per GiBps-month; the catalog keeps MiB/s like the EC2 API
+        rates.ebsGp3ThroughputMibpsMonth = unit === "GiBps-mo" ? price / 1024 : price;
+        rows++;
+      } else if (
+        family === "Storage Snapshot" &&
+        unit === "GB-Mo" &&
+        get("usageType").endsWith("EBS:SnapshotUsage")
+      ) {
+        rates.ebsSnapshotGbMonth = price;
+        rows++;
+      }
+    } else if (service === "AmazonRDS") {
+      if (get("Deployment Option") !== "Single-AZ") continue;
+      const engine = rdsEngines[get("Database Engine")];
+
+      if (family === "Database Instance" && unit === "Hrs" && engine && get("Instance Type")) {
+        ((rates.rds ??= {})[engine] ??= {})[get("Instance Type")] = price;
+        rows++;
+      } else if (
+        family === "Database Storage" &&
+        unit === "GB-Mo" &&
+        rdsVolumeTypes[get("Volume Type")] &&
+        (engine || get("Database Engine") === "Any")
+      ) {
+        (rates.rdsStorageGbMonth ??= {})[rdsVolumeTypes[get("Volume Type")]] = price;
+        rows++;
+      }
+    }
+  }
+
+  if (!columns) throw new Error(`${filePath} does not look like an AWS Price List CSV export.`);
+  if (service !== "AmazonEC2" && service !== "AmazonRDS") {
+    throw new Error(
+      `${filePath} is a ${service || "unknown"} price list; only AmazonEC2 and AmazonRDS are supported.`
+    );
+  }
+  return { service, rows };
+}
+
+async function main() {
+  const { files, out, version } = parseArgs(process.argv.slice(2));
+
+  const regions: Record<string, regionRates> = {};
+  for (const file of files) {
+    const { service, rows } = await importFile(file, regions);
+    console.log(`${file}: ${rows} ${service} rates`);
+  }
+
+  const existing = existsSync(out)
+    ? JSON.parse(readFileSync(out, "utf8"))
+    : { currency: "USD", hoursPerMonth: 730, regions: {} };
+  const catalog = mergePriceData(existing, {
+    version: version ?? new Date().toISOString().slice(0, 7),
+    regions,
+  });
+
+  writeFileSync(out, JSON.stringify(catalog, null, 2) + "\n");
+  console.log(`Wrote ${Object.keys(regions).join(", ") || "no"} regions to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error?.message ?? error);
+  process.exit(1);
+});
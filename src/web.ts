@@ -8,6 +8,7 @@ import { fileURLToPath } from "node:url";
 
 import { DaemoClient, DaemoHostedConnection } from "daemo-engine";
 import { buildSessionData } from "./agentSession.js";
+import { startEc2Scheduler, scheduleSettingsFromEnv } from "../awsEc2Scheduler.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -104,6 +105,9 @@ async function main() {
   );
   await connection.start();
 
+  // Office-hours EC2 start/stop loop (does nothing unless EC2_SCHEDULER_MODE is set)
+  startEc2Scheduler(scheduleSettingsFromEnv());
+
   // Expose an HTTP API for the browser chat UI.
   const client = new DaemoClient({ agentApiKey });
 